@@ -1,28 +1,45 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { BillData, PackingStatus } from './types';
-import { extractBillDetails } from './services/geminiService';
+import { BillData, CrnStatus, PackingStatus, SyncConflict } from './types';
+import { extractBillDetails } from './services/aiService';
+import { ExtractedBill } from './services/aiProvider';
 import { 
     getStoredBills, saveBillToStorage, deleteBillFromStorage, saveBillsToStorage, clearAllBills, 
-    COLOR_PALETTE, compressImage, initSupabase, getSupabaseConfig, fullSync, isSupabaseConnected, disconnectSupabase
+    COLOR_PALETTE, compressImage, connectSyncBackend, getSyncConfig, fullSync, isCloudConnected, disconnectSyncBackend,
+    purgeExpiredTombstones, getSyncConflicts, resolveSyncConflict, subscribeToRemoteChanges, RealtimeUpdate
 } from './services/storageService';
+import { CURRENT_SCHEMA_VERSION } from './services/migrations';
+import { hasSession, endSession } from './services/sessionService';
+import { subscribeOutbox, getFailedOutboxEntries, retryFailedOutbox } from './services/outboxService';
+import { SyncConfig, SyncBackendType, SYNC_BACKEND_LABELS } from './services/syncBackend';
 import BillCard from './components/BillCard';
 import CameraCapture from './components/CameraCapture';
 import DailyPlanner from './components/DailyPlanner';
 import LoginScreen from './components/LoginScreen';
-import * as XLSX from 'xlsx';
-import { Camera, FileSpreadsheet, Plus, Calendar, Loader2, Clock, Archive, ListChecks, X, Trash2, CheckSquare, Palette, RotateCcw, ChevronLeft, ChevronRight, Image as ImageIcon, AlertOctagon, Save, Ban, AlertTriangle, Cloud, CloudOff, RefreshCw, Database, LogOut } from 'lucide-react';
+import ConflictReview from './components/ConflictReview';
+import BackupRestore from './components/BackupRestore';
+import AiSettings from './components/AiSettings';
+import ImportWizard from './components/ImportWizard';
+import ExportDialog from './components/ExportDialog';
+import DispatchManifest from './components/DispatchManifest';
+import CrnQueue from './components/CrnQueue';
+import LabelPrinter from './components/LabelPrinter';
+import ScanToPack from './components/ScanToPack';
+import { createBoxes } from './services/boxService';
+import { toLocalDateString } from './services/dateService';
+import { canTransition, isBacklog, startAtStatus, transitionBill } from './services/statusService';
+import { crnQueue } from './services/crnService';
+import { supersededWarning } from './services/revisionService';
+import { needsReview, toExtractionReview } from './services/reviewService';
+import { ImportDraft } from './services/importService';
+import { downloadBackup } from './services/backupService';
+import { Camera, FileSpreadsheet, Plus, Calendar, Loader2, Clock, Archive, ListChecks, X, Trash2, CheckSquare, Palette, RotateCcw, ChevronLeft, ChevronRight, Image as ImageIcon, AlertOctagon, Save, Ban, AlertTriangle, Cloud, CloudOff, RefreshCw, Database, LogOut, GitMerge, DatabaseBackup, FileUp, Tag, ScanLine, Truck, Undo2, Sparkles } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // Robust ID generation
 const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
 
-const getTodayDateString = () => {
-  const now = new Date();
-  const offset = now.getTimezoneOffset();
-  const local = new Date(now.getTime() - (offset * 60 * 1000));
-  return local.toISOString().split('T')[0];
-};
+const getTodayDateString = () => toLocalDateString();
 
 const formatDateForDisplay = (dateStr: string) => {
   if (!dateStr) return '';
@@ -54,68 +71,138 @@ const App: React.FC = () => {
   // Duplicate Warning State
   const [duplicateAlert, setDuplicateAlert] = useState<{
       existing: BillData;
-      newData: { customerName: string; address: string; invoiceNo: string; billDate: string };
+      newData: ExtractedBill;
       base64: string | undefined;
   } | null>(null);
   
   // Camera State
   const [showCamera, setShowCamera] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
 
   // Daily Planner State
   const [showPlanner, setShowPlanner] = useState(false);
 
   // Cloud & Sync State
   const [showCloudSetup, setShowCloudSetup] = useState(false);
-  const [cloudConfig, setCloudConfig] = useState({ url: '', key: '' });
+  const [cloudConfig, setCloudConfig] = useState<SyncConfig>({ type: 'supabase', url: '', key: '' });
   const [isCloudConnectedState, setIsCloudConnectedState] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const [failedUploads, setFailedUploads] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [remoteChangedIds, setRemoteChangedIds] = useState<Set<string>>(new Set());
+  const [showBackup, setShowBackup] = useState(false);
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showDispatch, setShowDispatch] = useState(false);
+  const [showCrnQueue, setShowCrnQueue] = useState(false);
+  const [showNeedsReview, setShowNeedsReview] = useState(false);
+  const [labelBills, setLabelBills] = useState<BillData[] | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
 
   // Initial Load & Auth Check
   useEffect(() => {
-    // Check Session (using specific key for this app to avoid collisions)
-    const session = localStorage.getItem('grace_session');
-    if (session === 'loggedin') {
+    // Check Session
+    if (hasSession()) {
         setIsAuthenticated(true);
     }
 
-    // 1. Load Local Bills
-    setAllBills(getStoredBills());
+    // 1. Load Local Bills (and conflicts left over from the last session)
+    getStoredBills().then(setAllBills);
+    getSyncConflicts().then(setSyncConflicts);
 
     // 2. Check Cloud Config
-    const config = getSupabaseConfig();
+    const config = getSyncConfig();
     if (config) {
-        initSupabase(config.url, config.key);
+        connectSyncBackend(config);
         setIsCloudConnectedState(true);
-        handleSync(); // Auto sync on load
+        handleSync(); // Auto sync on load (also purges old tombstones)
+    } else {
+        purgeExpiredTombstones();
     }
+
+    // 3. Track unsent cloud writes for the header badge
+    return subscribeOutbox((pending, failed) => {
+        setPendingUploads(pending);
+        setFailedUploads(failed);
+    });
   }, []);
 
+  // Live updates from other devices while connected
+  useEffect(() => {
+    if (!isCloudConnectedState) return;
+    return subscribeToRemoteChanges(handleRemoteUpdate);
+  }, [isCloudConnectedState]);
+
   const handleLoginSuccess = () => {
       setIsAuthenticated(true);
   };
 
   const handleLogout = () => {
       if (window.confirm("Are you sure you want to logout?")) {
-          localStorage.removeItem('grace_session');
+          endSession();
           setIsAuthenticated(false);
       }
   };
 
   const handleSync = async () => {
-      if (!isSupabaseConnected()) return;
+      if (!isCloudConnected()) return;
       setIsSyncing(true);
       const synced = await fullSync();
       setAllBills(synced);
+      setSyncConflicts(await getSyncConflicts());
       setIsSyncing(false);
   };
 
+  const handleRetryFailedUploads = async () => {
+      const failed = await getFailedOutboxEntries();
+      const lastError = failed[failed.length - 1]?.lastError;
+      if (window.confirm(`${failed.length} changes could not be uploaded and are no longer retried.${lastError ? `\n\nServer said: ${lastError}` : ''}\n\nTry uploading them again?`)) {
+          await retryFailedOutbox();
+      }
+  };
+
+  const handleRemoteUpdate = async ({ updated, removedIds }: RealtimeUpdate) => {
+      const updatedById = new Map<string, BillData>(updated.map(b => [b.id, b]));
+      setAllBills(prev => {
+          const kept = prev
+              .filter(b => !removedIds.includes(b.id))
+              .map(b => updatedById.get(b.id) || b);
+          const added = updated.filter(b => !prev.some(p => p.id === b.id));
+          return [...added, ...kept];
+      });
+
+      // Briefly highlight cards someone else changed
+      const ids = updated.map(b => b.id);
+      setRemoteChangedIds(prev => new Set([...prev, ...ids]));
+      setTimeout(() => {
+          setRemoteChangedIds(prev => {
+              const next = new Set(prev);
+              ids.forEach(id => next.delete(id));
+              return next;
+          });
+      }, 4000);
+
+      setSyncConflicts(await getSyncConflicts());
+  };
+
+  const handleResolveConflict = async (conflictId: string, keep: 'local' | 'remote') => {
+      const updated = await resolveSyncConflict(conflictId, keep);
+      if (updated) setAllBills(prev => prev.map(b => b.id === updated.id ? updated : b));
+      const remaining = await getSyncConflicts();
+      setSyncConflicts(remaining);
+      if (remaining.length === 0) setShowConflicts(false);
+  };
+
   const handleConnectCloud = async () => {
-      if (!cloudConfig.url || !cloudConfig.key) return alert("Please fill in both fields");
+      if (cloudConfig.type === 'supabase' && (!cloudConfig.url || !cloudConfig.key)) return alert("Please fill in both fields");
+      if (cloudConfig.type === 'rest' && !cloudConfig.url) return alert("Please enter the server URL");
       
-      const success = initSupabase(cloudConfig.url, cloudConfig.key);
+      const success = connectSyncBackend(cloudConfig);
       if (success) {
           setIsCloudConnectedState(true);
           setShowCloudSetup(false);
@@ -125,10 +212,18 @@ const App: React.FC = () => {
       }
   };
 
+  const handleRestored = async (count: number) => {
+      setShowBackup(false);
+      setAllBills(await getStoredBills());
+      setSyncConflicts(await getSyncConflicts());
+      if (isCloudConnected()) handleSync();
+      alert(`Restored ${count} bills.`);
+  };
+
   const handleDisconnectCloud = () => {
-      disconnectSupabase();
+      disconnectSyncBackend();
       setIsCloudConnectedState(false);
-      setCloudConfig({ url: '', key: '' });
+      setCloudConfig({ type: 'supabase', url: '', key: '' });
       setShowCloudSetup(false);
   };
 
@@ -140,14 +235,20 @@ const App: React.FC = () => {
   };
 
   // --- FILTERING LOGIC ---
+  const isListed = (b: BillData) => b.entryDate === currentDate || (isBacklog(b) && b.entryDate < currentDate);
+  const reviewCount = allBills.filter(b => isListed(b) && needsReview(b)).length;
+  const matchesReviewFilter = (b: BillData) => !showNeedsReview || needsReview(b);
+
   const todayNewBills = allBills
-    .filter(b => b.entryDate === currentDate)
+    .filter(b => b.entryDate === currentDate && matchesReviewFilter(b))
     .sort((a, b) => b.createdAt - a.createdAt);
 
   const backlogBills = allBills
-    .filter(b => b.status === PackingStatus.PENDING && b.entryDate < currentDate)
+    .filter(b => isBacklog(b) && b.entryDate < currentDate && matchesReviewFilter(b))
     .sort((a, b) => a.entryDate.localeCompare(b.entryDate)); 
 
+  const pendingCrnCount = crnQueue(allBills, CrnStatus.PENDING).length;
+
   // --- ACTIONS ---
 
   const toggleSelectionMode = () => {
@@ -173,7 +274,7 @@ const App: React.FC = () => {
       setShowGroupModal(true);
   };
 
-  const applyGroupSettings = () => {
+  const applyGroupSettings = async () => {
       setShowGroupModal(false);
       
       const now = Date.now();
@@ -185,62 +286,66 @@ const App: React.FC = () => {
       });
       
       setAllBills(updates);
-      saveBillsToStorage(updates); // This now handles cloud sync implicitly for the whole batch isn't optimized but saves locally. 
-      // Trigger full sync for batch update simplicity
-      if (isCloudConnectedState) handleSync();
-      
       setIsSelectionMode(false);
       setSelectedIds(new Set());
+
+      await saveBillsToStorage(updates.filter(b => selectedIds.has(b.id)));
   };
 
-  const handlePackSelected = () => {
+  const handlePackSelected = async () => {
     if (selectedIds.size === 0) return;
-    if (window.confirm(`Mark ${selectedIds.size} bills as PACKED?`)) {
+    // Bills already past packing (or packed) are left alone
+    const packableBills = allBills.filter(b => selectedIds.has(b.id) && canTransition(b, PackingStatus.PACKED));
+    const packable = packableBills.length;
+    const skipped = selectedIds.size - packable;
+    const superseded = packableBills.filter(b => supersededWarning(allBills, b)).length;
+    const revisionNote = superseded ? `\n\n${superseded} of them revise an invoice that was already packed.` : '';
+    if (window.confirm(`Mark ${packable} bills as PACKED?${skipped ? ` ${skipped} already packed or dispatched will be skipped.` : ''}${revisionNote}`)) {
         const now = Date.now();
-        const updates = allBills.map(b => {
-            if (selectedIds.has(b.id)) {
-                return { ...b, status: PackingStatus.PACKED, packedAt: now, updatedAt: now };
-            }
-            return b;
-        });
+        const packed = new Map<string, BillData>(packableBills.map(b => [b.id, transitionBill(b, PackingStatus.PACKED, now)]));
+        const updates = allBills.map(b => packed.get(b.id) ?? b);
         setAllBills(updates);
-        saveBillsToStorage(updates);
-        if (isCloudConnectedState) handleSync();
-
         setIsSelectionMode(false);
         setSelectedIds(new Set());
+
+        await saveBillsToStorage([...packed.values()]);
     }
   };
 
-  const handleDeleteSelected = () => {
+  const handleDeleteSelected = async () => {
       if (selectedIds.size === 0) return;
-      if (window.confirm(`Permanently delete ${selectedIds.size} bills?`)) {
-          // Local Delete
-          const updates = allBills.filter(b => !selectedIds.has(b.id));
-          setAllBills(updates);
-          saveBillsToStorage(updates);
-          
-          // Remote Delete Loop
-          if (isCloudConnectedState) {
-              selectedIds.forEach(id => deleteBillFromStorage(id)); // Reuse the single delete logic which handles remote
-          }
-
+      if (window.confirm(`Delete ${selectedIds.size} bills?`)) {
+          const ids = [...selectedIds];
+          setAllBills(prev => prev.filter(b => !selectedIds.has(b.id)));
           setIsSelectionMode(false);
           setSelectedIds(new Set());
+
+          // Reuse the single delete logic which also removes images and handles remote
+          for (const id of ids) {
+              await deleteBillFromStorage(id);
+          }
       }
   }
 
-  const handleClearAllData = () => {
+  const handleClearAllData = async () => {
     if (window.confirm("⚠️ WARNING: CLEAR ALL DATA? ⚠️\n\nThis will permanently delete all bills, images, and settings from this device.\n\nAre you sure?")) {
+        if (window.confirm("Download a backup first? (Cancel to skip)")) {
+            try {
+                await downloadBackup();
+            } catch (e) {
+                console.error("Backup failed", e);
+                return alert("Backup failed, nothing was deleted.");
+            }
+        }
         if (window.confirm("Final Confirmation: This action cannot be undone. Delete everything?")) {
-            clearAllBills();
+            await clearAllBills();
             setAllBills([]);
         }
     }
   };
 
   // Helper to create and save bill after all checks
-  const createBill = async (extracted: { customerName: string; address: string; invoiceNo: string; billDate: string }, base64Image?: string, manualData?: any) => {
+  const createBill = async (extracted: Pick<ExtractedBill, 'customerName' | 'address' | 'invoiceNo' | 'billDate'> & Partial<ExtractedBill>, base64Image?: string, manualData?: any) => {
     const newBill: BillData = {
       id: generateId(),
       imageUrl: base64Image || '', 
@@ -253,8 +358,13 @@ const App: React.FC = () => {
       hasCRN: false,
       isEditedBill: false,
       isAdditionalBill: false,
-      boxCount: manualData?.boxCount || 0,
+      lineItems: extracted.items || [],
+      ...(extracted.total ? { billTotal: extracted.total } : {}),
+      ...(base64Image ? { extraction: toExtractionReview(extracted) } : {}),
+      boxes: createBoxes(manualData?.boxCount || 0),
+      statusHistory: [],
       description: manualData?.description || '', 
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       entryDate: currentDate,
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -271,7 +381,7 @@ const App: React.FC = () => {
     setLoadingId('new');
     setProcessStatus('Compressing image...');
     
-    let extracted = { customerName: '', address: '', invoiceNo: '', billDate: '' };
+    let extracted: ExtractedBill = { customerName: '', address: '', invoiceNo: '', billDate: '', items: [], confidence: {}, rawText: '' };
     let base64Image: string | undefined = undefined;
 
     try {
@@ -292,7 +402,7 @@ const App: React.FC = () => {
           base64Image = await compressImage(rawBase64);
           
           setProcessStatus('Analyzing with AI...');
-          extracted = await extractBillDetails(base64Image);
+          extracted = await extractBillDetails(base64Image, () => setProcessStatus('Reading offline on this device...'));
 
           // --- DUPLICATE CHECK LOGIC ---
           setProcessStatus('Checking for duplicates...');
@@ -359,6 +469,15 @@ const App: React.FC = () => {
     await saveBillToStorage(updated);
   };
 
+  // Batch status changes from the dispatch screen
+  const handleUpdateBills = async (updated: BillData[]) => {
+    if (updated.length === 0) return;
+    const byId = new Map<string, BillData>(updated.map(b => [b.id, b]));
+    const updatedBills = allBills.map(b => byId.get(b.id) ?? b);
+    setAllBills(updatedBills);
+    await saveBillsToStorage(updated);
+  };
+
   const handleDeleteBill = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this bill?")) {
       await deleteBillFromStorage(id);
@@ -367,27 +486,37 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExportExcel = () => {
-    const data = allBills.map(b => ({
-      'Entry Date': b.entryDate,
-      'Bill Date': b.billDate,
-      'Customer Name': b.customerName,
-      'Address': b.address,
-      'Group Name': b.description,
-      'Color Theme': b.colorTheme || 'Auto',
-      'Invoice No': b.invoiceNo,
-      'Status': b.status,
-      'Packed At': b.packedAt ? new Date(b.packedAt).toLocaleString() : '',
-      'Boxes': b.boxCount,
-      'Delivery': b.isDelivery ? 'Yes' : 'No',
-      'CRN': b.hasCRN ? 'Yes' : 'No',
-      'Additional': b.isAdditionalBill ? 'Yes' : 'No',
-      'Edited': b.isEditedBill ? 'Yes' : 'No',
-    }));
-    const ws = XLSX.utils.json_to_sheet(data);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Grace_Packing_Data");
-    XLSX.writeFile(wb, `Grace_Packing_${currentDate}.xlsx`);
+  const handleImportBills = async (drafts: ImportDraft[], entryDate: string) => {
+      const now = Date.now();
+      // Rows were validated by the wizard, so every status here is one the bill can start at
+      const imported: BillData[] = drafts.map((d, i) => startAtStatus({
+          id: generateId(),
+          customerName: d.customerName || '',
+          address: d.address || '',
+          invoiceNo: d.invoiceNo || '',
+          billDate: d.billDate || '',
+          status: PackingStatus.PENDING,
+          isDelivery: !!d.isDelivery,
+          hasCRN: !!d.hasCRN,
+          isEditedBill: !!d.isEditedBill,
+          isAdditionalBill: !!d.isAdditionalBill,
+          lineItems: [],
+          boxes: createBoxes(d.boxCount || 0),
+          statusHistory: [],
+          description: d.description || '',
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          entryDate,
+          // Keep the sheet's row order when sorted newest first
+          createdAt: now - i,
+          updatedAt: now,
+      }, d.status || PackingStatus.PENDING, now));
+
+      const updatedBills = [...imported, ...allBills];
+      setAllBills(updatedBills);
+      setShowImport(false);
+      setCurrentDate(entryDate);
+
+      await saveBillsToStorage(imported);
   };
 
   const handleCameraCapture = (file: File) => {
@@ -411,6 +540,15 @@ const App: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* --- SCAN TO PACK --- */}
+      <AnimatePresence>
+        {showScanner && (
+            <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[200] bg-black">
+                <ScanToPack bills={allBills} onUpdateBill={handleUpdateBill} onClose={() => setShowScanner(false)} />
+            </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* --- HEADER --- */}
       <div className="sticky top-0 z-30 bg-white/90 backdrop-blur-xl border-b border-gray-200 shadow-sm px-4 py-3">
         <div className="flex justify-between items-center max-w-3xl mx-auto">
@@ -422,7 +560,22 @@ const App: React.FC = () => {
             >
                {isSyncing ? <RefreshCw size={10} className="animate-spin" /> : isCloudConnectedState ? <Cloud size={10} /> : <CloudOff size={10} />}
                {isSyncing ? 'Syncing...' : isCloudConnectedState ? 'Cloud Active' : 'Offline'}
+               {isCloudConnectedState && pendingUploads > 0 && (
+                   <span className="ml-0.5 min-w-[1.1rem] px-1 py-px rounded-full bg-amber-500 text-white text-[9px] leading-none text-center" title={`${pendingUploads} changes waiting to upload`}>
+                       {pendingUploads}
+                   </span>
+               )}
             </button>
+            {isCloudConnectedState && failedUploads > 0 && (
+                <button onClick={handleRetryFailedUploads} className="ml-1 inline-flex items-center gap-1 text-xs font-bold px-2 py-0.5 rounded-full bg-red-100 text-red-700 hover:bg-red-200 transition-colors">
+                    <AlertTriangle size={10} /> {failedUploads} Not Uploaded
+                </button>
+            )}
+            {syncConflicts.length > 0 && (
+                <button onClick={() => setShowConflicts(true)} className="ml-1 inline-flex items-center gap-1 text-xs font-bold px-2 py-0.5 rounded-full bg-orange-100 text-orange-700 hover:bg-orange-200 transition-colors">
+                    <GitMerge size={10} /> {syncConflicts.length} {syncConflicts.length === 1 ? 'Conflict' : 'Conflicts'}
+                </button>
+            )}
           </div>
           <div className="flex items-center gap-2">
              
@@ -449,12 +602,34 @@ const App: React.FC = () => {
                 <ListChecks size={20} />
              </button>
 
+             <button onClick={() => setShowScanner(true)} className="p-2.5 bg-gray-100 hover:bg-gray-200 text-black rounded-xl transition-colors" title="Scan to Pack">
+                <ScanLine size={20} />
+             </button>
+
+             <button onClick={() => setShowDispatch(true)} className="p-2.5 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-xl transition-colors" title="Dispatch & Manifest">
+                <Truck size={20} />
+             </button>
+
+             <button onClick={() => setShowCrnQueue(true)} className="relative p-2.5 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-xl transition-colors" title="Returns (CRN)">
+                <Undo2 size={20} />
+                {pendingCrnCount > 0 && <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 bg-amber-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">{pendingCrnCount}</span>}
+             </button>
+
              <button onClick={toggleSelectionMode} className={`p-2.5 rounded-xl transition-all ${isSelectionMode ? 'bg-black text-white shadow-lg scale-105' : 'bg-gray-100 text-black hover:bg-gray-200'}`} title="Select Multiple">
                 <CheckSquare size={20} />
              </button>
-             <button onClick={handleExportExcel} className="hidden sm:block p-2.5 bg-green-50 hover:bg-green-100 text-green-700 rounded-xl transition-colors" title="Export Excel">
+             <button onClick={() => setShowImport(true)} className="hidden sm:block p-2.5 bg-green-50 hover:bg-green-100 text-green-700 rounded-xl transition-colors" title="Import Excel/CSV">
+                <FileUp size={20} />
+             </button>
+             <button onClick={() => setShowExport(true)} className="hidden sm:block p-2.5 bg-green-50 hover:bg-green-100 text-green-700 rounded-xl transition-colors" title="Export Excel">
                 <FileSpreadsheet size={20} />
              </button>
+             <button onClick={() => setShowBackup(true)} className="p-2.5 bg-gray-100 hover:bg-gray-200 text-black rounded-xl transition-colors" title="Backup & Restore">
+                <DatabaseBackup size={20} />
+             </button>
+             <button onClick={() => setShowAiSettings(true)} className="p-2.5 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-xl transition-colors" title="AI Settings">
+                <Sparkles size={20} />
+             </button>
              <button onClick={handleClearAllData} className="p-2.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-xl transition-colors" title="Clear All Data">
                 <Trash2 size={20} />
              </button>
@@ -499,6 +674,9 @@ const App: React.FC = () => {
                             key={bill.id} bill={bill} onChange={handleUpdateBill} onDelete={handleDeleteBill}
                             isExpanded={expandedId === bill.id} toggleExpand={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
                             isSelectionMode={isSelectionMode} isSelected={selectedIds.has(bill.id)} onToggleSelect={() => handleToggleSelect(bill.id)}
+                            isRemoteChange={remoteChangedIds.has(bill.id)}
+                            onPrintLabels={() => setLabelBills([bill])}
+                            allBills={allBills}
                         />
                     ))}
                 </div>
@@ -512,9 +690,19 @@ const App: React.FC = () => {
                    <Clock size={18} className="text-black"/> 
                    {currentDate === getTodayDateString() ? "Today's Bills" : `Bills for ${formatDateForDisplay(currentDate)}`}
                 </h2>
-                <span className="text-xs font-bold text-gray-500 bg-white border border-gray-200 px-3 py-1 rounded-full shadow-sm">
-                    {todayNewBills.length} Entries
-                </span>
+                <div className="flex items-center gap-2">
+                    {(reviewCount > 0 || showNeedsReview) && (
+                        <button
+                            onClick={() => setShowNeedsReview(!showNeedsReview)}
+                            className={`text-xs font-bold px-3 py-1 rounded-full border shadow-sm flex items-center gap-1 transition-colors ${showNeedsReview ? 'bg-amber-500 text-white border-amber-500' : 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'}`}
+                        >
+                            <AlertTriangle size={12} /> Needs review ({reviewCount})
+                        </button>
+                    )}
+                    <span className="text-xs font-bold text-gray-500 bg-white border border-gray-200 px-3 py-1 rounded-full shadow-sm">
+                        {todayNewBills.length} Entries
+                    </span>
+                </div>
             </div>
             
             {/* --- LOADING INDICATOR --- */}
@@ -546,12 +734,56 @@ const App: React.FC = () => {
                     key={bill.id} bill={bill} onChange={handleUpdateBill} onDelete={handleDeleteBill}
                     isExpanded={expandedId === bill.id} toggleExpand={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
                     isSelectionMode={isSelectionMode} isSelected={selectedIds.has(bill.id)} onToggleSelect={() => handleToggleSelect(bill.id)}
+                    isRemoteChange={remoteChangedIds.has(bill.id)}
+                    onPrintLabels={() => setLabelBills([bill])}
+                    allBills={allBills}
                 />
             ))}
         </div>
         </AnimatePresence>
       </div>
 
+      {/* --- BOX LABELS --- */}
+      <AnimatePresence>
+      {labelBills && (
+        <LabelPrinter bills={labelBills} onClose={() => setLabelBills(null)} />
+      )}
+      </AnimatePresence>
+
+      {/* --- EXPORT DIALOG --- */}
+      <AnimatePresence>
+      {showExport && (
+        <ExportDialog bills={allBills} currentDate={currentDate} onClose={() => setShowExport(false)} />
+      )}
+      {showDispatch && (
+        <DispatchManifest bills={allBills} currentDate={currentDate} onUpdateBills={handleUpdateBills} onClose={() => setShowDispatch(false)} />
+      )}
+      {showCrnQueue && (
+        <CrnQueue bills={allBills} onUpdateBills={handleUpdateBills} onClose={() => setShowCrnQueue(false)} />
+      )}
+      </AnimatePresence>
+
+      {/* --- IMPORT WIZARD --- */}
+      <AnimatePresence>
+      {showImport && (
+        <ImportWizard existingBills={allBills} defaultEntryDate={currentDate} onImport={handleImportBills} onClose={() => setShowImport(false)} />
+      )}
+      </AnimatePresence>
+
+      {/* --- BACKUP & RESTORE MODAL --- */}
+      <AnimatePresence>
+      {showBackup && (
+        <BackupRestore onRestored={handleRestored} onClose={() => setShowBackup(false)} />
+      )}
+      </AnimatePresence>
+
+      {/* --- AI SETTINGS MODAL --- */}
+      <AnimatePresence>
+      {showAiSettings && (
+        <AiSettings onClose={() => setShowAiSettings(false)} />
+      )}
+      </AnimatePresence>
+
       {/* --- CLOUD SETUP MODAL --- */}
       <AnimatePresence>
       {showCloudSetup && (
@@ -560,40 +792,76 @@ const App: React.FC = () => {
                  <div className="flex justify-between items-start mb-4">
                      <div>
                          <h2 className="text-xl font-black mb-1 flex items-center gap-2"><Database size={24} className="text-indigo-600"/> Cloud Sync</h2>
-                         <p className="text-sm text-gray-500">Connect to Supabase for multi-device sync.</p>
+                         <p className="text-sm text-gray-500">Connect a sync server for multi-device sync.</p>
                      </div>
                      <button onClick={() => setShowCloudSetup(false)} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
                  </div>
 
                  {!isCloudConnectedState ? (
                      <div className="space-y-4">
-                        <div>
-                             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">Project URL</label>
-                             <input 
-                                value={cloudConfig.url} onChange={e => setCloudConfig({...cloudConfig, url: e.target.value})}
-                                placeholder="https://xyz.supabase.co"
-                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                             />
-                        </div>
-                        <div>
-                             <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">API Key (Anon)</label>
-                             <input 
-                                value={cloudConfig.key} onChange={e => setCloudConfig({...cloudConfig, key: e.target.value})}
-                                placeholder="eyJh..."
-                                type="password"
-                                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
-                             />
+                        <div className="flex p-1 bg-gray-100 rounded-xl">
+                            {(Object.keys(SYNC_BACKEND_LABELS) as SyncBackendType[]).map(type => (
+                                <button
+                                    key={type}
+                                    onClick={() => setCloudConfig({...cloudConfig, type})}
+                                    className={`flex-1 py-2 rounded-lg text-[11px] font-bold transition-all ${cloudConfig.type === type ? 'bg-white text-black shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                                >
+                                    {SYNC_BACKEND_LABELS[type]}
+                                </button>
+                            ))}
                         </div>
+
+                        {cloudConfig.type !== 'memory' && (
+                            <>
+                            <div>
+                                 <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{cloudConfig.type === 'rest' ? 'Server URL' : 'Project URL'}</label>
+                                 <input 
+                                    value={cloudConfig.url} onChange={e => setCloudConfig({...cloudConfig, url: e.target.value})}
+                                    placeholder={cloudConfig.type === 'rest' ? 'https://sync.example.com/api' : 'https://xyz.supabase.co'}
+                                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                                 />
+                            </div>
+                            <div>
+                                 <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{cloudConfig.type === 'rest' ? 'Access Token (optional)' : 'API Key (Anon)'}</label>
+                                 <input 
+                                    value={cloudConfig.key} onChange={e => setCloudConfig({...cloudConfig, key: e.target.value})}
+                                    placeholder="eyJh..."
+                                    type="password"
+                                    className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                                 />
+                            </div>
+                            </>
+                        )}
                         
-                        <div className="bg-blue-50 p-3 rounded-xl border border-blue-100 text-xs text-blue-800 leading-relaxed">
-                            <strong className="block mb-1">Required Database Setup:</strong>
-                            Create a table named <code>bills</code> with columns:
-                            <ul className="list-disc pl-4 mt-1 space-y-0.5">
-                                <li><code>id</code> (text, Primary Key)</li>
-                                <li><code>data</code> (jsonb)</li>
-                                <li><code>updated_at</code> (bigint)</li>
-                            </ul>
-                        </div>
+                        {cloudConfig.type === 'supabase' && (
+                            <div className="bg-blue-50 p-3 rounded-xl border border-blue-100 text-xs text-blue-800 leading-relaxed">
+                                <strong className="block mb-1">Required Database Setup:</strong>
+                                Create a table named <code>bills</code> with columns:
+                                <ul className="list-disc pl-4 mt-1 space-y-0.5">
+                                    <li><code>id</code> (text, Primary Key)</li>
+                                    <li><code>data</code> (jsonb)</li>
+                                    <li><code>updated_at</code> (bigint)</li>
+                                </ul>
+                                <span className="block mt-1">And a storage bucket named <code>bill-images</code> for receipt photos.</span>
+                            </div>
+                        )}
+                        {cloudConfig.type === 'rest' && (
+                            <div className="bg-blue-50 p-3 rounded-xl border border-blue-100 text-xs text-blue-800 leading-relaxed">
+                                <strong className="block mb-1">Server Routes:</strong>
+                                <ul className="list-disc pl-4 mt-1 space-y-0.5">
+                                    <li><code>GET /bills?since=</code> changed rows</li>
+                                    <li><code>POST /bills</code> upsert rows</li>
+                                    <li><code>POST /bills/delete</code> purge rows</li>
+                                    <li><code>GET /bills/events</code> live updates (SSE)</li>
+                                    <li><code>PUT/GET /images/:ref/:variant</code> receipt photos</li>
+                                </ul>
+                            </div>
+                        )}
+                        {cloudConfig.type === 'memory' && (
+                            <div className="bg-amber-50 p-3 rounded-xl border border-amber-100 text-xs text-amber-800 leading-relaxed">
+                                Syncs against a throwaway server inside this tab. Nothing leaves the device and it resets on reload.
+                            </div>
+                        )}
 
                         <button onClick={handleConnectCloud} className="w-full py-3 bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all">
                             Connect
@@ -623,6 +891,18 @@ const App: React.FC = () => {
       )}
       </AnimatePresence>
 
+      {/* --- SYNC CONFLICT REVIEW --- */}
+      <AnimatePresence>
+      {showConflicts && (
+          <ConflictReview
+              conflicts={syncConflicts}
+              bills={allBills}
+              onResolve={handleResolveConflict}
+              onClose={() => setShowConflicts(false)}
+          />
+      )}
+      </AnimatePresence>
+
       {/* --- DUPLICATE WARNING MODAL --- */}
       <AnimatePresence>
       {duplicateAlert && (
@@ -747,7 +1027,7 @@ const App: React.FC = () => {
 
       {/* --- SELECTION BAR --- */}
       <AnimatePresence>
-      {isSelectionMode && !showGroupModal && !duplicateAlert && (
+      {isSelectionMode && !showGroupModal && !duplicateAlert && !labelBills && (
           <motion.div initial={{ y: 100, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 100, opacity: 0 }} className="fixed bottom-6 inset-x-4 max-w-3xl mx-auto bg-white text-gray-900 rounded-2xl p-2 shadow-2xl ring-1 ring-black/5 flex items-center justify-between z-40">
              <div className="flex items-center gap-3 px-4">
                 <div className="bg-black text-white w-8 h-8 rounded-lg flex items-center justify-center font-bold text-sm">{selectedIds.size}</div>
@@ -755,6 +1035,7 @@ const App: React.FC = () => {
              </div>
              <div className="flex items-center gap-1">
                 <button onClick={openGroupModal} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Palette size={22} className="text-indigo-600 mb-0.5"/><span className="text-[10px] font-bold">Group</span></button>
+                <button onClick={() => setLabelBills(allBills.filter(b => selectedIds.has(b.id)))} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Tag size={22} className="text-gray-700 mb-0.5"/><span className="text-[10px] font-bold">Labels</span></button>
                 <button onClick={handlePackSelected} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><CheckSquare size={22} className="text-green-600 mb-0.5"/><span className="text-[10px] font-bold">Pack</span></button>
                 <button onClick={handleDeleteSelected} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Trash2 size={22} className="text-red-500 mb-0.5"/><span className="text-[10px] font-bold">Delete</span></button>
                 <div className="w-px h-8 bg-gray-200 mx-2"></div>
@@ -766,7 +1047,7 @@ const App: React.FC = () => {
 
       {/* --- STANDARD FAB --- */}
       <AnimatePresence>
-      {!isSelectionMode && !duplicateAlert && !showPlanner && !showGroupModal && !showCloudSetup && (
+      {!isSelectionMode && !duplicateAlert && !showPlanner && !showGroupModal && !showCloudSetup && !showConflicts && !showBackup && !showAiSettings && !showImport && !showExport && !showDispatch && !showCrnQueue && (
           <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} exit={{ scale: 0 }} className="fixed bottom-8 right-6 flex flex-col gap-4 z-40">
             <button onClick={() => handleAddBill(null)} className="w-14 h-14 bg-white text-gray-900 rounded-2xl shadow-lg border border-gray-200 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><Plus size={28} strokeWidth={3} /></button>
             <button onClick={() => galleryInputRef.current?.click()} className="w-14 h-14 bg-white text-indigo-600 rounded-2xl shadow-lg border border-indigo-100 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><ImageIcon size={28} strokeWidth={2.5} /></button>
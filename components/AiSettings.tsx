@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Sparkles, AlertTriangle, WifiOff, Loader2, Check } from 'lucide-react';
+import { AI_MODELS, AI_PROVIDER_LABELS, AiConfig, AiProviderType } from '../services/aiProvider';
+import { getAiConfig, saveAiConfig } from '../services/aiService';
+import { getGeminiKey } from '../services/geminiService';
+import { prepareOfflineReader } from '../services/ocrService';
+
+interface AiSettingsProps {
+  onClose: () => void;
+}
+
+const AiSettings: React.FC<AiSettingsProps> = ({ onClose }) => {
+  const [config, setConfig] = useState<AiConfig>(getAiConfig);
+
+  const [offlineReader, setOfflineReader] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+
+  const handlePrepareOffline = async () => {
+    setOfflineReader('loading');
+    try {
+      await prepareOfflineReader();
+      setOfflineReader('ready');
+    } catch (e) {
+      console.error("Offline reader download failed", e);
+      setOfflineReader('error');
+    }
+  };
+
+  const selectProvider = (provider: AiProviderType) => setConfig({ provider, model: AI_MODELS[provider][0] });
+
+  const handleSave = () => {
+    saveAiConfig(config);
+    onClose();
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl ring-1 ring-white/10">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><Sparkles size={22} className="text-indigo-600"/> AI Settings</h2>
+            <p className="text-sm text-gray-500">Reads bill photos and answers in the planner chat.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex p-1 bg-gray-100 rounded-xl">
+            {(Object.keys(AI_PROVIDER_LABELS) as AiProviderType[]).map(provider => (
+              <button
+                key={provider}
+                onClick={() => selectProvider(provider)}
+                className={`flex-1 py-2 rounded-lg text-[11px] font-bold transition-all ${config.provider === provider ? 'bg-white text-black shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {AI_PROVIDER_LABELS[provider]}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">Model</label>
+            <select
+              value={config.model}
+              onChange={e => setConfig({ ...config, model: e.target.value })}
+              className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {AI_MODELS[config.provider].map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+          </div>
+
+          {config.provider === 'gemini' && !getGeminiKey() && (
+            <div className="bg-amber-50 p-3 rounded-xl border border-amber-100 text-xs text-amber-800 leading-relaxed flex gap-2">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5"/>
+              <span>No API key in this build. Set <code>VITE_GEMINI_API_KEY</code>; until then bills are read offline on this device.</span>
+            </div>
+          )}
+          {config.provider === 'mock' && (
+            <div className="bg-blue-50 p-3 rounded-xl border border-blue-100 text-xs text-blue-800 leading-relaxed">
+              Returns canned bills picked by the photo, with no network. The same photo always gives the same result.
+            </div>
+          )}
+
+          <div className="bg-gray-50 p-3 rounded-xl border border-gray-100 text-xs text-gray-600 leading-relaxed space-y-2">
+            <p className="flex gap-2"><WifiOff size={14} className="shrink-0 mt-0.5"/> Without a connection, bills are read on this device and marked so they can be re-run with the AI later.</p>
+            <button onClick={handlePrepareOffline} disabled={offlineReader === 'loading' || offlineReader === 'ready'} className="w-full py-2 bg-white border border-gray-200 rounded-lg font-bold text-gray-700 hover:bg-gray-100 disabled:opacity-70 flex items-center justify-center gap-1.5">
+              {offlineReader === 'loading' && <><Loader2 size={12} className="animate-spin"/> Downloading...</>}
+              {offlineReader === 'ready' && <><Check size={12} className="text-green-600"/> Offline reader ready</>}
+              {offlineReader === 'idle' && 'Download offline reader'}
+              {offlineReader === 'error' && "Download failed, try again"}
+            </button>
+          </div>
+
+          <button onClick={handleSave} className="w-full py-3.5 bg-black text-white rounded-xl font-bold hover:bg-gray-800 transition-colors">
+            Save
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default AiSettings;
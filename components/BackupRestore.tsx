@@ -0,0 +1,134 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, DatabaseBackup, Download, Upload, Loader2, FileJson, AlertTriangle } from 'lucide-react';
+import { BackupArchive, downloadBackup, readBackupFile, restoreBackup, summarizeBackup } from '../services/backupService';
+import { RestoreMode } from '../services/storageService';
+
+interface BackupRestoreProps {
+  onRestored: (count: number) => void;
+  onClose: () => void;
+}
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ onRestored, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState<'backup' | 'restore' | null>(null);
+  const [error, setError] = useState('');
+
+  const summary = archive ? summarizeBackup(archive) : null;
+
+  const handleDownload = async () => {
+    setBusy('backup');
+    setError('');
+    try {
+      await downloadBackup();
+    } catch (e) {
+      console.error("Backup failed", e);
+      setError("Couldn't create the backup.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    setError('');
+    setArchive(null);
+    try {
+      setArchive(await readBackupFile(file));
+    } catch (e: any) {
+      setError(e.message || "Couldn't read the backup.");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    if (mode === 'replace' && !window.confirm("Replace ALL bills, planner notes and chat on this device with the backup?")) return;
+    setBusy('restore');
+    setError('');
+    try {
+      onRestored(await restoreBackup(archive, mode));
+    } catch (e) {
+      console.error("Restore failed", e);
+      setError("Restore failed. Some data may not have been restored.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl ring-1 ring-white/10 space-y-5">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><DatabaseBackup size={22} className="text-indigo-500"/> Backup & Restore</h2>
+            <p className="text-sm text-gray-500">Bills, images, planner notes, manifests, chat and AI settings. Sync keys are never included.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <button
+          onClick={handleDownload}
+          disabled={!!busy}
+          className="w-full py-3.5 rounded-xl font-bold text-white bg-black shadow-lg shadow-black/20 hover:scale-[1.02] transition-transform flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {busy === 'backup' ? <Loader2 size={18} className="animate-spin"/> : <Download size={18}/>} Download Backup
+        </button>
+
+        <div className="pt-4 border-t border-gray-100 space-y-3">
+          <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider block">Restore from file</label>
+          <input type="file" accept="application/json,.json" ref={fileInputRef} onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!busy}
+            className="w-full p-3 rounded-xl border-2 border-dashed border-gray-200 text-sm font-bold text-gray-500 hover:border-indigo-300 hover:text-indigo-600 transition-colors flex items-center justify-center gap-2"
+          >
+            <FileJson size={16}/> {archive ? 'Choose another file' : 'Choose backup file'}
+          </button>
+
+          {summary && (
+            <div className="p-3 bg-gray-50 rounded-xl border border-gray-100 text-xs text-gray-600 space-y-0.5">
+              <p className="font-bold text-gray-900">{new Date(summary.createdAt).toLocaleString()}</p>
+              <p className="text-gray-400">by {summary.createdBy}</p>
+              <p>{summary.bills} bills · {summary.images} images · {summary.plannerDays} planner days · {summary.chatMessages} messages</p>
+            </div>
+          )}
+
+          {archive && (
+            <>
+              <div className="flex p-1 bg-gray-100 rounded-xl">
+                {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${mode === m ? 'bg-white text-black shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                  >
+                    {m === 'merge' ? 'Merge' : 'Replace'}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[11px] text-gray-500 leading-relaxed">
+                {mode === 'merge'
+                  ? 'Adds missing bills and keeps the newer copy of bills that exist on both. Planner tasks and chat are combined.'
+                  : 'Deletes every bill, planner note and chat message on this device, then loads the backup.'}
+              </p>
+              <button
+                onClick={handleRestore}
+                disabled={!!busy}
+                className={`w-full py-3 rounded-xl font-bold text-white flex items-center justify-center gap-2 disabled:opacity-50 ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+              >
+                {busy === 'restore' ? <Loader2 size={16} className="animate-spin"/> : <Upload size={16}/>} Restore
+              </button>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-xs font-bold text-red-600 flex items-center gap-1.5"><AlertTriangle size={14}/> {error}</p>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default BackupRestore;
@@ -1,9 +1,20 @@
 
-import React, { useRef, useEffect } from 'react';
-import { BillData, PackingStatus } from '../types';
-import { getThemeStyles, COLOR_PALETTE } from '../services/storageService';
-import { Trash2, Calendar, MapPin, Check, Truck, AlertCircle, Edit3, Layers, User, ChevronDown, ChevronUp, Hash, Package, ExternalLink, Palette } from 'lucide-react';
+import React, { useRef, useEffect, useState } from 'react';
+import { BillData, PackingStatus, ProofOfDelivery as ProofOfDeliveryData, ImageAttachment, ExtractedField } from '../types';
+import { getThemeStyles, COLOR_PALETTE, getBillImageUrl, getBillImageDataUrl, getAttachmentUrl, saveAttachment, compressImage, blobToDataUrl } from '../services/storageService';
+import { extractCrnDetails, extractBillWithAi } from '../services/aiService';
+import { applyCrnScan } from '../services/crnService';
+import { canHaveParent, childrenOf, supersededWarning } from '../services/revisionService';
+import { lowConfidenceFields, confirmField, markReviewed, isOfflineRead, applyAiRerun, EXTRACTED_FIELD_LABELS } from '../services/reviewService';
+import { togglePicked, setAllPicked, pickedItemCount, itemsTotal, formatAmount, formatQuantity } from '../services/itemService';
+import { resizeBoxes, updateBox, packedBoxCount, totalWeight } from '../services/boxService';
+import { STATUS_LABELS, allowedTransitions, transitionBill, isPacked, isDispatchStatus } from '../services/statusService';
+import { Trash2, Calendar, MapPin, Check, Truck, AlertCircle, Edit3, Layers, User, ChevronDown, ChevronUp, Hash, Package, ExternalLink, Palette, Loader2, Tag, Boxes, Send, RotateCcw, PenLine, Camera, GitBranch, AlertTriangle, ClipboardList, ScanSearch, Sparkles, WifiOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import ProofOfDelivery from './ProofOfDelivery';
+import CrnDetails from './CrnDetails';
+import RevisionLinks from './RevisionLinks';
+import CameraCapture from './CameraCapture';
 
 interface BillCardProps {
   bill: BillData;
@@ -14,6 +25,9 @@ interface BillCardProps {
   isSelectionMode: boolean;
   isSelected: boolean;
   onToggleSelect: () => void;
+  isRemoteChange?: boolean; // Just changed by another device
+  onPrintLabels?: () => void;
+  allBills?: BillData[]; // Other bills, for linking CRNs and revisions to their invoice
 }
 
 const InputGroup: React.FC<{ label: string; icon?: React.ReactNode; children: React.ReactNode }> = ({ label, icon, children }) => (
@@ -26,6 +40,18 @@ const InputGroup: React.FC<{ label: string; icon?: React.ReactNode; children: Re
     </div>
 );
 
+const STATUS_DOT: Record<PackingStatus, string> = {
+    [PackingStatus.PENDING]: 'bg-orange-500',
+    [PackingStatus.PACKED]: 'bg-green-500',
+    [PackingStatus.READY_FOR_DISPATCH]: 'bg-indigo-500',
+    [PackingStatus.DISPATCHED]: 'bg-blue-500',
+    [PackingStatus.DELIVERED]: 'bg-emerald-600',
+    [PackingStatus.RETURNED]: 'bg-red-500',
+};
+
+const formatEventTime = (at: number) =>
+    new Date(at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
 const BillCard: React.FC<BillCardProps> = ({ 
     bill, 
     onChange, 
@@ -34,30 +60,151 @@ const BillCard: React.FC<BillCardProps> = ({
     toggleExpand,
     isSelectionMode,
     isSelected,
-    onToggleSelect
+    onToggleSelect,
+    isRemoteChange = false,
+    onPrintLabels,
+    allBills = []
 }) => {
   
   const handleChange = (field: keyof BillData, value: any) => {
-    onChange({ ...bill, [field]: value, updatedAt: Date.now() });
+    const updated = { ...bill, [field]: value, updatedAt: Date.now() };
+    onChange(field in EXTRACTED_FIELD_LABELS ? confirmField(updated, field as ExtractedField) : updated);
   };
 
+  // Fields the AI wasn't sure about stay highlighted until edited or the bill is marked reviewed
+  const reviewFields = lowConfidenceFields(bill);
+  const reviewHighlight = (field: ExtractedField) =>
+      reviewFields.includes(field) ? ' !border-amber-400 !bg-amber-50 ring-2 ring-amber-200' : '';
+  const [showRawText, setShowRawText] = useState(false);
+
+  // Bills read by the on-device OCR fallback can be handed to the AI once it's reachable
+  const offlineRead = isOfflineRead(bill);
+  const [isRerunning, setIsRerunning] = useState(false);
+
+  const handleRerunWithAi = async () => {
+      setIsRerunning(true);
+      try {
+          const image = await getBillImageDataUrl(bill);
+          if (!image) throw new Error("bill image unavailable");
+          const extracted = await extractBillWithAi(image);
+          if (extracted.failed) alert("The AI still can't read this bill. Check the connection and API key, then try again.");
+          else onChange(applyAiRerun(bill, extracted));
+      } catch (e) {
+          console.error("AI re-run failed", e);
+          alert("Couldn't load the bill image. Check your connection and try again.");
+      } finally {
+          setIsRerunning(false);
+      }
+  };
+
+  // Pending/Packed apply to every box; with boxes, the bill's status follows them from then on
+  const revisionWarning = supersededWarning(allBills, bill);
+  const hasRevisions = canHaveParent(bill) || childrenOf(allBills, bill).length > 0;
+
   const handleStatusChange = (newStatus: PackingStatus) => {
-    const updates: Partial<BillData> = { 
-        status: newStatus,
-        updatedAt: Date.now() 
-    };
-    if (newStatus === PackingStatus.PACKED) {
-        updates.packedAt = Date.now();
-    } else {
-        updates.packedAt = undefined;
+    if (newStatus === PackingStatus.PACKED && revisionWarning && !isPacked(bill) && !window.confirm(`${revisionWarning}\n\nMark packed anyway?`)) return;
+    try {
+      onChange(transitionBill(bill, newStatus));
+    } catch (e: any) {
+      alert(e.message);
     }
-    onChange({ ...bill, ...updates });
   };
 
+  // Delivery is only recorded together with who received it
+  const [showProof, setShowProof] = useState(false);
+
+  const handleDelivered = (proof: ProofOfDeliveryData) => {
+    try {
+      onChange({ ...transitionBill(bill, PackingStatus.DELIVERED, proof.deliveredAt), proofOfDelivery: proof });
+      setShowProof(false);
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  // Once staged for dispatch the boxes are sealed; step back to Packed to change them
+  const boxesLocked = isDispatchStatus(bill.status);
+  const dispatchActions = allowedTransitions(bill).filter(isDispatchStatus);
+
+  const handleBoxCountChange = (count: number) => {
+      onChange(resizeBoxes(bill, count));
+  };
+
+  const boxCount = bill.boxes.length;
+  const packedBoxes = packedBoxCount(bill);
+  const weight = totalWeight(bill);
+
   const toggleFlag = (field: keyof BillData) => {
       handleChange(field, !bill[field]);
   };
 
+  // Images of bills synced from other devices live in blob storage: fetch the thumbnail on first expand
+  const [thumbUrl, setThumbUrl] = useState<string | null>(null);
+  const [isOpeningImage, setIsOpeningImage] = useState(false);
+  const hasImage = !!(bill.imageUrl || bill.imageRef);
+
+  useEffect(() => {
+      if (!isExpanded || bill.imageUrl || !bill.imageRef || thumbUrl) return;
+      let cancelled = false;
+      getBillImageUrl(bill, 'thumb').then(url => { if (!cancelled) setThumbUrl(url); });
+      return () => { cancelled = true; };
+  }, [isExpanded, bill.imageUrl, bill.imageRef]);
+
+  const proof = bill.proofOfDelivery;
+  const [proofThumbs, setProofThumbs] = useState<{ photo?: string | null; signature?: string | null }>({});
+
+  useEffect(() => {
+      if (!isExpanded || !proof) return;
+      let cancelled = false;
+      Promise.all([
+          proof.photo ? getAttachmentUrl(proof.photo, 'thumb') : null,
+          proof.signature ? getAttachmentUrl(proof.signature, 'thumb') : null,
+      ]).then(([photo, signature]) => { if (!cancelled) setProofThumbs({ photo, signature }); });
+      return () => { cancelled = true; };
+  }, [isExpanded, proof?.photo?.id, proof?.photo?.ref, proof?.signature?.id, proof?.signature?.ref]);
+
+  const openAttachment = async (attachment: ImageAttachment) => {
+      const tab = window.open('', '_blank');
+      const url = await getAttachmentUrl(attachment, 'full');
+      if (url && tab) tab.location.href = url;
+      else {
+          tab?.close();
+          alert("Couldn't load the image. Check your connection and try again.");
+      }
+  };
+
+  // CRN paper: stored as an attachment, then read by the AI to fill in what's still blank
+  const [showCrnCamera, setShowCrnCamera] = useState(false);
+  const [isScanningCrn, setIsScanningCrn] = useState(false);
+
+  const handleCrnCapture = async (file: File) => {
+      setIsScanningCrn(true);
+      try {
+          const image = await compressImage(await blobToDataUrl(file));
+          const [document, scan] = await Promise.all([saveAttachment(image), extractCrnDetails(image)]);
+          onChange(applyCrnScan(bill, allBills, document, scan));
+      } catch (e) {
+          console.error("CRN scan failed", e);
+          alert("Couldn't read the CRN. Please try again or fill it in by hand.");
+      } finally {
+          setIsScanningCrn(false);
+      }
+  };
+
+  const openFullImage = async () => {
+      if (bill.imageUrl) return window.open(bill.imageUrl, '_blank', 'noopener');
+      // Open the tab synchronously so popup blockers allow it, then point it at the download
+      const tab = window.open('', '_blank');
+      setIsOpeningImage(true);
+      const url = await getBillImageUrl(bill, 'full');
+      setIsOpeningImage(false);
+      if (url && tab) tab.location.href = url;
+      else {
+          tab?.close();
+          alert("Couldn't load the image. Check your connection and try again.");
+      }
+  };
+
   const theme = getThemeStyles(bill.colorTheme, bill.description);
   
   const handleCardClick = (e: React.MouseEvent) => {
@@ -72,6 +219,7 @@ const BillCard: React.FC<BillCardProps> = ({
   };
 
   return (
+    <>
     <motion.div 
         layout
         initial={{ opacity: 0, y: 10 }}
@@ -90,8 +238,18 @@ const BillCard: React.FC<BillCardProps> = ({
             }
             ${isSelectionMode ? 'cursor-pointer' : ''}
             ${isSelected ? 'ring-2 ring-indigo-600 border-indigo-600' : ''}
+            ${isRemoteChange && !isSelected ? 'ring-2 ring-sky-300' : ''}
         `}
     >
+
+      {/* Remote Change Marker */}
+      <AnimatePresence>
+      {isRemoteChange && (
+          <motion.span initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="absolute top-1 left-1/2 -translate-x-1/2 z-20 text-[9px] font-bold uppercase tracking-wider text-sky-700 bg-sky-100 px-1.5 py-0.5 rounded-full pointer-events-none">
+              Updated
+          </motion.span>
+      )}
+      </AnimatePresence>
       
       {/* Selection Overlay */}
       {isSelectionMode && (
@@ -109,8 +267,8 @@ const BillCard: React.FC<BillCardProps> = ({
           <div className="flex items-start gap-3 flex-1 min-w-0 pr-10">
             {/* Status Indicator */}
              <div className="mt-1.5 relative shrink-0">
-                <div className={`w-3 h-3 rounded-full shadow-sm transition-colors ${bill.status === PackingStatus.PACKED ? 'bg-green-500' : 'bg-orange-500'}`} />
-                {bill.status === PackingStatus.PACKED && (
+                <div className={`w-3 h-3 rounded-full shadow-sm transition-colors ${STATUS_DOT[bill.status]}`} title={STATUS_LABELS[bill.status]} />
+                {isPacked(bill) && (
                     <motion.div initial={{scale:0}} animate={{scale:1}} className="absolute -right-1 -bottom-1 bg-white rounded-full p-0.5">
                         <Check size={8} className="text-green-600" strokeWidth={4}/>
                     </motion.div>
@@ -118,7 +276,7 @@ const BillCard: React.FC<BillCardProps> = ({
              </div>
 
             <div className="min-w-0 flex-1">
-              <h3 className={`font-black text-lg truncate leading-tight mb-1 ${bill.status === PackingStatus.PACKED ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+              <h3 className={`font-black text-lg truncate leading-tight mb-1 ${isPacked(bill) ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
                   {bill.customerName || "Unknown Customer"}
               </h3>
               
@@ -139,13 +297,16 @@ const BillCard: React.FC<BillCardProps> = ({
           {!isSelectionMode && (
               <div className={`
                 flex flex-col items-center justify-center min-w-[3rem] px-2 py-1.5 rounded-xl border font-bold text-xs transition-colors shrink-0
-                ${bill.boxCount > 0 
+                ${boxCount > 0 
                     ? 'bg-gray-900 text-white border-gray-900 shadow-md' 
                     : 'bg-white text-gray-300 border-gray-100'
                 }
               `}>
                  <span className="text-[9px] opacity-70 uppercase tracking-wider">Box</span>
-                 <span className="text-sm leading-none">{bill.boxCount}</span>
+                 <span className="text-sm leading-none">{boxCount}</span>
+                 {packedBoxes > 0 && bill.status === PackingStatus.PENDING && (
+                     <span className="text-[9px] leading-none mt-0.5 text-green-300" title="Boxes packed">{packedBoxes}/{boxCount}</span>
+                 )}
               </div>
           )}
         </div>
@@ -161,7 +322,10 @@ const BillCard: React.FC<BillCardProps> = ({
                 {bill.isDelivery && <span className="w-2 h-2 rounded-full bg-blue-500 ring-2 ring-white" title="Delivery"/>}
                 {bill.hasCRN && <span className="w-2 h-2 rounded-full bg-amber-500 ring-2 ring-white" title="CRN"/>}
                 {bill.isEditedBill && <span className="w-2 h-2 rounded-full bg-purple-500 ring-2 ring-white" title="Edited"/>}
-                {bill.status === PackingStatus.PACKED && <span className="text-[10px] font-bold text-green-600 flex items-center gap-1 ml-auto"><Check size={10}/> Packed</span>}
+                {revisionWarning && <span className="text-red-500" title={revisionWarning}><AlertTriangle size={12}/></span>}
+                {reviewFields.length > 0 && <span className="text-[9px] font-bold uppercase px-1.5 py-0.5 rounded bg-amber-100 text-amber-700" title="AI extraction needs checking">Review</span>}
+                {offlineRead && <span className="text-gray-400" title="Read offline without AI"><WifiOff size={12}/></span>}
+                {isPacked(bill) && <span className={`text-[10px] font-bold flex items-center gap-1 ml-auto ${bill.status === PackingStatus.RETURNED ? 'text-red-600' : 'text-green-600'}`}><Check size={10}/> {STATUS_LABELS[bill.status]}</span>}
             </div>
         )}
 
@@ -184,19 +348,57 @@ const BillCard: React.FC<BillCardProps> = ({
         >
             <div className="px-4 pb-4 space-y-6">
                 
+                {/* Offline read */}
+                {offlineRead && (
+                    <div className="p-3 bg-indigo-50 border border-indigo-100 rounded-xl flex items-center gap-2">
+                        <WifiOff size={16} className="text-indigo-500 shrink-0"/>
+                        <p className="flex-1 text-xs font-bold text-indigo-800">Read on this device without AI. Details may be incomplete.</p>
+                        {hasImage && (
+                            <button onClick={handleRerunWithAi} disabled={isRerunning} className="shrink-0 flex items-center gap-1 px-2.5 py-1 rounded-lg text-[11px] font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60">
+                                {isRerunning ? <Loader2 size={12} className="animate-spin"/> : <Sparkles size={12}/>} Re-run with AI
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {/* AI extraction review */}
+                {reviewFields.length > 0 && bill.extraction && (
+                    <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl space-y-2">
+                        <div className="flex items-start gap-2">
+                            <ScanSearch size={16} className="text-amber-600 shrink-0 mt-0.5"/>
+                            <p className="flex-1 text-xs font-bold text-amber-800">
+                                {bill.extraction.failed ? "Couldn't read this bill. Fill in:" : offlineRead ? 'Check what was read offline:' : 'Check what the AI read:'} {reviewFields.map(f => EXTRACTED_FIELD_LABELS[f]).join(', ')}
+                            </p>
+                            <button onClick={() => onChange(markReviewed(bill))} className="shrink-0 px-2.5 py-1 rounded-lg text-[11px] font-bold text-white bg-amber-600 hover:bg-amber-700">
+                                Looks right
+                            </button>
+                        </div>
+                        {bill.extraction.rawText && (
+                            <>
+                                <button onClick={() => setShowRawText(!showRawText)} className="text-[11px] font-bold text-amber-700 hover:text-amber-900">
+                                    {showRawText ? 'Hide' : 'Show'} text read from the bill
+                                </button>
+                                {showRawText && (
+                                    <pre className="max-h-40 overflow-y-auto p-2 bg-white rounded-lg border border-amber-100 text-[10px] text-gray-600 whitespace-pre-wrap font-mono">{bill.extraction.rawText}</pre>
+                                )}
+                            </>
+                        )}
+                    </div>
+                )}
+
                 {/* 1. STATUS & LOGISTICS CARD */}
                 <div className="p-3 bg-gray-50 rounded-xl border border-gray-100 grid grid-cols-12 gap-3">
                      {/* Status Toggle */}
                      <div className="col-span-8 bg-white p-1 rounded-lg border border-gray-200 flex shadow-sm">
                          <button 
                             onClick={() => handleStatusChange(PackingStatus.PENDING)}
-                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all ${bill.status === PackingStatus.PENDING ? 'bg-orange-50 text-orange-600 shadow-sm ring-1 ring-orange-100' : 'text-gray-400 hover:bg-gray-50'}`}
+                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all ${!isPacked(bill) ? 'bg-orange-50 text-orange-600 shadow-sm ring-1 ring-orange-100' : 'text-gray-400 hover:bg-gray-50'}`}
                          >
                             <AlertCircle size={14} /> Pending
                          </button>
                          <button 
                             onClick={() => handleStatusChange(PackingStatus.PACKED)}
-                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all ${bill.status === PackingStatus.PACKED ? 'bg-green-50 text-green-600 shadow-sm ring-1 ring-green-100' : 'text-gray-400 hover:bg-gray-50'}`}
+                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all ${isPacked(bill) ? 'bg-green-50 text-green-600 shadow-sm ring-1 ring-green-100' : 'text-gray-400 hover:bg-gray-50'}`}
                          >
                             <Check size={14} strokeWidth={3} /> Packed
                          </button>
@@ -204,15 +406,161 @@ const BillCard: React.FC<BillCardProps> = ({
 
                      {/* Box Counter */}
                      <div className="col-span-4 bg-white rounded-lg border border-gray-200 flex items-center justify-between px-1 shadow-sm">
-                        <button onClick={() => handleChange('boxCount', Math.max(0, bill.boxCount - 1))} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronDown size={14}/></button>
+                        <button onClick={() => handleBoxCountChange(Math.max(0, boxCount - 1))} disabled={boxesLocked} className="disabled:opacity-30 p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronDown size={14}/></button>
                         <div className="flex flex-col items-center">
                             <span className="text-[9px] text-gray-400 font-bold uppercase">Box</span>
-                            <span className="text-sm font-black text-gray-900 leading-none">{bill.boxCount}</span>
+                            <span className="text-sm font-black text-gray-900 leading-none">{boxCount}</span>
                         </div>
-                        <button onClick={() => handleChange('boxCount', bill.boxCount + 1)} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronUp size={14}/></button>
+                        <button onClick={() => handleBoxCountChange(boxCount + 1)} disabled={boxesLocked} className="disabled:opacity-30 p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronUp size={14}/></button>
                      </div>
                 </div>
 
+                {revisionWarning && (
+                    <p className="p-3 bg-red-50 border border-red-200 rounded-xl text-xs font-bold text-red-700 flex items-start gap-2">
+                        <AlertTriangle size={14} className="shrink-0 mt-0.5"/> {revisionWarning}
+                    </p>
+                )}
+
+                {/* Dispatch (delivery bills, once packed) */}
+                {bill.isDelivery && isPacked(bill) && (
+                    <InputGroup label={`Dispatch · ${STATUS_LABELS[bill.status]}`} icon={<Truck size={12}/>}>
+                        <div className="p-3 bg-blue-50/50 rounded-xl border border-blue-100 space-y-3">
+                            {dispatchActions.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {dispatchActions.map(status => (
+                                        <button
+                                            key={status}
+                                            onClick={() => status === PackingStatus.DELIVERED ? setShowProof(true) : handleStatusChange(status)}
+                                            className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg text-xs font-bold text-white shadow-sm active:scale-95 transition-transform ${STATUS_DOT[status]}`}
+                                        >
+                                            {status === PackingStatus.RETURNED ? <RotateCcw size={12}/> : status === PackingStatus.DELIVERED ? <Check size={12} strokeWidth={3}/> : <Send size={12}/>}
+                                            {status === PackingStatus.READY_FOR_DISPATCH ? 'Ready for Dispatch' : STATUS_LABELS[status]}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {bill.status === PackingStatus.READY_FOR_DISPATCH && (
+                                <button onClick={() => handleStatusChange(PackingStatus.PACKED)} className="text-[11px] font-bold text-gray-500 hover:text-gray-800">
+                                    Back to packing floor
+                                </button>
+                            )}
+                            {proof && (
+                                <div className="p-2.5 bg-white rounded-lg border border-emerald-100 space-y-2">
+                                    <div className="text-[11px] text-gray-500">
+                                        <p>Received by <span className="font-bold text-gray-900">{proof.receiverName}</span></p>
+                                        <p>{formatEventTime(proof.deliveredAt)} · {proof.capturedBy.split('@')[0]}</p>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        {([['signature', PenLine], ['photo', Camera]] as const).map(([key, Icon]) => proof[key] && (
+                                            <button
+                                                key={key}
+                                                onClick={() => openAttachment(proof[key]!)}
+                                                className="w-20 h-14 rounded-lg overflow-hidden border border-gray-200 bg-gray-50 flex items-center justify-center text-gray-300"
+                                                aria-label={`View ${key}`}
+                                            >
+                                                {proofThumbs[key] ? <img src={proofThumbs[key]!} alt={key} className="w-full h-full object-cover"/> : <Icon size={16}/>}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                            {bill.statusHistory.length > 0 && (
+                                <ol className="space-y-1 border-l-2 border-blue-100 pl-3">
+                                    {bill.statusHistory.slice(-6).reverse().map((event, i) => (
+                                        <li key={`${event.at}-${i}`} className="text-[11px] text-gray-500 flex items-center gap-2">
+                                            <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${STATUS_DOT[event.status]}`}/>
+                                            <span className="font-bold text-gray-800">{STATUS_LABELS[event.status]}</span>
+                                            <span>{formatEventTime(event.at)}</span>
+                                            <span className="truncate text-gray-400">{event.by.split('@')[0]}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </div>
+                    </InputGroup>
+                )}
+
+                {/* Item Checklist: what to pick for this bill */}
+                {bill.lineItems.length > 0 && (
+                    <InputGroup label={`Items · ${pickedItemCount(bill)}/${bill.lineItems.length} picked`} icon={<ClipboardList size={12}/>}>
+                        <div className={`space-y-1${reviewFields.includes('lineItems') ? ' p-1 rounded-xl bg-amber-50 ring-2 ring-amber-200' : ''}`}>
+                            {bill.lineItems.map((item, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => onChange(togglePicked(bill, i))}
+                                    className={`w-full flex items-center gap-2.5 p-2 rounded-xl border text-left transition-colors ${item.picked ? 'bg-green-50 border-green-100' : 'bg-white border-gray-200 hover:border-gray-300'}`}
+                                >
+                                    <span className={`w-5 h-5 rounded-md border-2 flex items-center justify-center shrink-0 ${item.picked ? 'bg-green-500 border-green-500 text-white' : 'border-gray-300 text-transparent'}`}>
+                                        <Check size={12} strokeWidth={4}/>
+                                    </span>
+                                    <span className={`flex-1 min-w-0 text-xs font-bold truncate ${item.picked ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{item.product}</span>
+                                    <span className="text-xs font-black text-gray-900 shrink-0">{formatQuantity(item)}</span>
+                                    {item.amount > 0 && <span className="w-16 text-right text-[11px] text-gray-400 shrink-0">{formatAmount(item.amount)}</span>}
+                                </button>
+                            ))}
+                            <div className="flex items-center justify-between px-1 pt-1">
+                                <button
+                                    onClick={() => onChange(setAllPicked(bill, pickedItemCount(bill) < bill.lineItems.length))}
+                                    className="text-[11px] font-bold text-gray-500 hover:text-gray-800"
+                                >
+                                    {pickedItemCount(bill) < bill.lineItems.length ? 'Tick all' : 'Clear all'}
+                                </button>
+                                {bill.billTotal ? (
+                                    <span className={`text-[11px] font-bold ${Math.abs(itemsTotal(bill) - bill.billTotal) > 1 ? 'text-amber-600' : 'text-gray-500'}`} title="Sum of lines vs. printed total">
+                                        Total {formatAmount(bill.billTotal)}
+                                    </span>
+                                ) : null}
+                            </div>
+                        </div>
+                    </InputGroup>
+                )}
+
+                {/* Box Checklist */}
+                {boxCount > 0 && (
+                    <InputGroup label={`Boxes · ${packedBoxes}/${boxCount} packed${weight ? ` · ${weight} kg` : ''}`} icon={<Boxes size={12}/>}>
+                        <div className="space-y-1.5">
+                            {bill.boxes.map(box => {
+                                const boxPacked = box.status === PackingStatus.PACKED;
+                                return (
+                                    <div key={box.index} className={`flex items-center gap-2 p-1.5 rounded-xl border transition-colors ${boxPacked ? 'bg-green-50 border-green-100' : 'bg-white border-gray-200'}`}>
+                                        <button
+                                            onClick={() => onChange(updateBox(bill, box.index, { status: boxPacked ? PackingStatus.PENDING : PackingStatus.PACKED }))}
+                                            disabled={boxesLocked}
+                                            className={`disabled:opacity-50 w-7 h-7 rounded-lg border-2 flex items-center justify-center shrink-0 transition-colors ${boxPacked ? 'bg-green-500 border-green-500 text-white' : 'border-gray-300 text-transparent hover:border-gray-400'}`}
+                                            aria-label={`Box ${box.index} ${boxPacked ? 'packed' : 'pending'}`}
+                                        >
+                                            <Check size={14} strokeWidth={4}/>
+                                        </button>
+                                        <div className="w-12 shrink-0">
+                                            <p className="text-xs font-black text-gray-900 leading-none">#{box.index}</p>
+                                            {boxPacked && box.packedAt && (
+                                                <p className="text-[9px] font-bold text-green-600 mt-0.5">{new Date(box.packedAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}</p>
+                                            )}
+                                        </div>
+                                        <input
+                                            type="number"
+                                            inputMode="decimal"
+                                            min={0}
+                                            step={0.1}
+                                            value={box.weight ?? ''}
+                                            onChange={(e) => onChange(updateBox(bill, box.index, { weight: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) }))}
+                                            className="w-16 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            placeholder="kg"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={box.note || ''}
+                                            onChange={(e) => onChange(updateBox(bill, box.index, { note: e.target.value || undefined }))}
+                                            className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-700 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                            placeholder="Note"
+                                        />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </InputGroup>
+                )}
+
                 {/* 2. CUSTOMER & ADDRESS */}
                 <div className="space-y-4">
                     <InputGroup label="Customer Details" icon={<User size={12}/>}>
@@ -221,7 +569,7 @@ const BillCard: React.FC<BillCardProps> = ({
                                 type="text" 
                                 value={bill.customerName}
                                 onChange={(e) => handleChange('customerName', e.target.value)}
-                                className="w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-base font-bold text-gray-900 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm"
+                                className={`w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-base font-bold text-gray-900 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm${reviewHighlight('customerName')}`}
                                 placeholder="Customer Name"
                             />
                             <div className="grid grid-cols-2 gap-3">
@@ -231,7 +579,7 @@ const BillCard: React.FC<BillCardProps> = ({
                                         type="text" 
                                         value={bill.invoiceNo}
                                         onChange={(e) => handleChange('invoiceNo', e.target.value)}
-                                        className="w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                        className={`w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none${reviewHighlight('invoiceNo')}`}
                                         placeholder="Invoice #"
                                     />
                                 </div>
@@ -241,7 +589,7 @@ const BillCard: React.FC<BillCardProps> = ({
                                         type="date" 
                                         value={bill.billDate}
                                         onChange={(e) => handleChange('billDate', e.target.value)}
-                                        className="w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                        className={`w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none${reviewHighlight('billDate')}`}
                                     />
                                 </div>
                             </div>
@@ -253,7 +601,7 @@ const BillCard: React.FC<BillCardProps> = ({
                             value={bill.address}
                             onChange={(e) => handleChange('address', e.target.value)}
                             rows={2}
-                            className="w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-700 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none shadow-sm"
+                            className={`w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-700 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none shadow-sm${reviewHighlight('address')}`}
                             placeholder="City, Area, or Full Address..."
                         />
                     </InputGroup>
@@ -290,6 +638,27 @@ const BillCard: React.FC<BillCardProps> = ({
                      </div>
                 </div>
 
+                {/* Return details */}
+                {bill.hasCRN && (
+                    <InputGroup label="Credit Return Note" icon={<AlertCircle size={12}/>}>
+                        <CrnDetails
+                            bill={bill}
+                            bills={allBills}
+                            onChange={onChange}
+                            onScan={() => setShowCrnCamera(true)}
+                            onOpenDocument={() => bill.crn?.document && openAttachment(bill.crn.document)}
+                            isScanning={isScanningCrn}
+                        />
+                    </InputGroup>
+                )}
+
+                {/* Original invoice and its revisions */}
+                {hasRevisions && (
+                    <InputGroup label={canHaveParent(bill) ? 'Original Invoice' : 'Revisions'} icon={<GitBranch size={12}/>}>
+                        <RevisionLinks bill={bill} bills={allBills} onChange={onChange}/>
+                    </InputGroup>
+                )}
+
                 {/* 4. CUSTOM COLOR PICKER */}
                 <div>
                      <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1 mb-2">
@@ -317,22 +686,33 @@ const BillCard: React.FC<BillCardProps> = ({
 
                 {/* 5. FOOTER ACTIONS */}
                 <div className="pt-4 mt-2 border-t border-gray-100 flex gap-3">
-                    {bill.imageUrl && (
+                    {hasImage && (
                         <div className="flex-1 flex items-center gap-3 p-2 bg-gray-50 rounded-xl border border-gray-200 group cursor-pointer hover:bg-gray-100 transition-colors relative overflow-hidden">
                              <div className="w-10 h-10 rounded-lg overflow-hidden bg-gray-200 shrink-0 border border-gray-300 relative">
-                                <img src={bill.imageUrl} alt="Bill" className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" />
+                                {(bill.imageUrl || thumbUrl) && (
+                                    <img src={bill.imageUrl || thumbUrl!} alt="Bill" className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" />
+                                )}
                              </div>
                              <div className="flex-1 min-w-0">
                                 <p className="text-[10px] font-bold text-gray-400 uppercase">Attachment</p>
                                 <p className="text-xs font-bold text-indigo-600 truncate flex items-center gap-1">
-                                    View Receipt <ExternalLink size={10}/>
+                                    View Receipt {isOpeningImage ? <Loader2 size={10} className="animate-spin"/> : <ExternalLink size={10}/>}
                                 </p>
                              </div>
                              {/* Click target overlay */}
-                             <a href={bill.imageUrl} target="_blank" rel="noopener noreferrer" className="absolute inset-0 z-10" />
+                             <button onClick={(e) => { e.stopPropagation(); openFullImage(); }} className="absolute inset-0 z-10" aria-label="View receipt" />
                         </div>
                     )}
                     
+                    {onPrintLabels && boxCount > 0 && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onPrintLabels(); }}
+                            className="px-4 py-2 rounded-xl border border-gray-200 text-gray-700 bg-gray-50 hover:bg-gray-100 font-bold text-xs flex flex-col items-center justify-center gap-1 transition-colors min-w-[80px]"
+                        >
+                            <Tag size={16} /> Labels
+                        </button>
+                    )}
+
                     <button 
                         onClick={(e) => { e.stopPropagation(); onDelete(bill.id); }}
                         className="px-4 py-2 rounded-xl border border-red-100 text-red-500 bg-red-50 hover:bg-red-100 hover:text-red-700 font-bold text-xs flex flex-col items-center justify-center gap-1 transition-colors min-w-[80px]"
@@ -346,6 +726,12 @@ const BillCard: React.FC<BillCardProps> = ({
       )}
       </AnimatePresence>
     </motion.div>
+    {/* Outside the card: its transform would otherwise contain the fixed overlay */}
+    <AnimatePresence>
+      {showProof && <ProofOfDelivery bill={bill} onSave={handleDelivered} onClose={() => setShowProof(false)}/>}
+    </AnimatePresence>
+    {showCrnCamera && <CameraCapture onCapture={handleCrnCapture} onClose={() => setShowCrnCamera(false)}/>}
+    </>
   );
 };
 
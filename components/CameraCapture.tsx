@@ -2,13 +2,21 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { X, Zap, ZapOff, RefreshCw, Check, Grid3x3, AlertTriangle, Layers, Camera as CameraIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { decodeCanvas } from '../services/scanService';
 
 interface CameraCaptureProps {
-  onCapture: (file: File) => void;
+  onCapture?: (file: File) => void;
   onClose: () => void;
+  // Scan mode: decode QR/barcodes from the live feed instead of taking photos
+  onScan?: (text: string) => void;
+  scanPanel?: React.ReactNode; // Replaces the shutter controls in scan mode
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+const SCAN_INTERVAL_MS = 250;
+const SCAN_MAX_WIDTH = 720;
+const SAME_CODE_COOLDOWN_MS = 2500; // A label held in view is reported once, not every frame
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, onScan, scanPanel }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -19,6 +27,9 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
   const [showGrid, setShowGrid] = useState(true);
   const [sessionCount, setSessionCount] = useState(0);
   const [showSavedToast, setShowSavedToast] = useState(false);
+  const isScanMode = !!onScan;
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
 
   // Initialize Camera with Fallback Logic
   useEffect(() => {
@@ -97,6 +108,42 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
     };
   }, []);
 
+  // Scan loop: sample downscaled frames and report each newly seen code
+  useEffect(() => {
+    if (!isScanMode || !stream) return;
+    let busy = false;
+    let lastCode = '';
+    let lastAt = 0;
+
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (busy || !video || !canvas || video.readyState < 2 || !video.videoWidth) return;
+      busy = true;
+      try {
+        const scale = Math.min(1, SCAN_MAX_WIDTH / video.videoWidth);
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        canvas.getContext('2d', { willReadFrequently: true })?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const code = await decodeCanvas(canvas);
+        const now = Date.now();
+        if (code && (code !== lastCode || now - lastAt > SAME_CODE_COOLDOWN_MS)) {
+          onScanRef.current?.(code);
+        }
+        if (code) {
+          lastCode = code;
+          lastAt = now;
+        }
+      } catch (e) {
+        console.error("Scan error", e);
+      } finally {
+        busy = false;
+      }
+    }, SCAN_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [isScanMode, stream]);
+
   // Toggle Flash
   const toggleFlash = async () => {
     if (!stream || !isFlashSupported) return;
@@ -144,7 +191,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
   const handleSaveAndClose = () => {
     if (capturedImage) {
         processImage(capturedImage, (file) => {
-            onCapture(file);
+            onCapture?.(file);
             onClose();
         });
     }
@@ -154,7 +201,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
   const handleSaveAndNext = () => {
     if (capturedImage) {
         processImage(capturedImage, (file) => {
-            onCapture(file);
+            onCapture?.(file);
             setSessionCount(prev => prev + 1);
             setShowSavedToast(true);
             setTimeout(() => setShowSavedToast(false), 2000);
@@ -239,12 +286,12 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
 
           {!capturedImage && (
               <div className="flex gap-4 pointer-events-auto">
-                 <button 
+                 {!isScanMode && <button 
                     onClick={() => setShowGrid(!showGrid)} 
                     className={`p-3 rounded-full backdrop-blur-md border transition-all ${showGrid ? 'bg-yellow-400/20 text-yellow-400 border-yellow-400/50' : 'bg-black/40 text-white border-white/10'}`}
                  >
                     <Grid3x3 size={24} />
-                 </button>
+                 </button>}
                  {isFlashSupported && (
                     <button 
                         onClick={toggleFlash} 
@@ -269,7 +316,13 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
                 className="w-full h-full object-cover"
                 />
                 {/* Grid Overlay */}
-                {showGrid && (
+                {/* Scan Target */}
+                {isScanMode && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="w-64 h-64 max-w-[70vw] max-h-[70vw] rounded-3xl border-4 border-white/70 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]" />
+                    </div>
+                )}
+                {showGrid && !isScanMode && (
                     <div className="absolute inset-0 pointer-events-none opacity-40">
                         <div className="absolute left-1/3 inset-y-0 w-px bg-white shadow-sm"></div>
                         <div className="absolute right-1/3 inset-y-0 w-px bg-white shadow-sm"></div>
@@ -306,7 +359,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
 
        {/* Bottom Controls */}
        <div className="p-6 pb-10 bg-black flex flex-col justify-center min-h-[160px]">
-           {capturedImage ? (
+           {isScanMode ? scanPanel : capturedImage ? (
                <div className="grid grid-cols-3 gap-4 items-center">
                    <button onClick={retake} className="flex flex-col items-center gap-2 text-gray-400 hover:text-white transition-colors group">
                        <div className="p-4 rounded-full bg-gray-800 group-active:scale-95 transition-transform"><RefreshCw size={24} /></div>
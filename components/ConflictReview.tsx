@@ -0,0 +1,77 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, GitMerge, Smartphone, Cloud, Hash } from 'lucide-react';
+import { BillData, SyncConflict } from '../types';
+import { FIELD_LABELS, MergeField } from '../services/mergeService';
+
+interface ConflictReviewProps {
+  conflicts: SyncConflict[];
+  bills: BillData[];
+  onResolve: (conflictId: string, keep: 'local' | 'remote') => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const ConflictReview: React.FC<ConflictReviewProps> = ({ conflicts, bills, onResolve, onClose }) => {
+  const billsById = new Map<string, BillData>(bills.map(b => [b.id, b]));
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-md max-h-[85vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><GitMerge size={22} className="text-orange-500"/> Sync Conflicts</h2>
+            <p className="text-sm text-gray-500">Two devices changed the same detail. The other device's value is shown now — keep it or restore yours.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {conflicts.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-10">All conflicts resolved</p>
+          )}
+          {conflicts.map(c => {
+            const bill = billsById.get(c.billId);
+            return (
+              <div key={c.id} className="p-4 bg-gray-50 rounded-2xl border border-gray-100 space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-gray-900 truncate">{bill?.customerName || 'Unknown Customer'}</p>
+                    <p className="text-[11px] font-mono text-gray-400 flex items-center gap-1"><Hash size={10}/>{bill?.invoiceNo || '---'}</p>
+                  </div>
+                  <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full bg-orange-100 text-orange-700 shrink-0">
+                    {FIELD_LABELS[c.field as MergeField] || c.field}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => onResolve(c.id, 'local')}
+                    className="p-3 rounded-xl border border-gray-200 bg-white hover:border-indigo-400 hover:bg-indigo-50 text-left transition-colors"
+                  >
+                    <span className="text-[9px] font-bold text-gray-400 uppercase tracking-wider flex items-center gap-1 mb-1"><Smartphone size={10}/> This device</span>
+                    <span className="text-sm font-bold text-gray-900 break-words">{formatValue(c.localValue)}</span>
+                  </button>
+                  <button
+                    onClick={() => onResolve(c.id, 'remote')}
+                    className="p-3 rounded-xl border-2 border-orange-300 bg-orange-50 hover:border-orange-500 text-left transition-colors"
+                  >
+                    <span className="text-[9px] font-bold text-orange-500 uppercase tracking-wider flex items-center gap-1 mb-1"><Cloud size={10}/> Other device</span>
+                    <span className="text-sm font-bold text-gray-900 break-words">{formatValue(c.remoteValue)}</span>
+                  </button>
+                </div>
+                <p className="text-[10px] text-gray-400">Was: {formatValue(c.baseValue)}</p>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ConflictReview;
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Camera, Check, FileText, Link2, Loader2, Plus, RotateCcw, X } from 'lucide-react';
+import { BillData, CrnStatus, ReturnedItem } from '../types';
+import { CRN_STATUS_LABELS, crnOf, linkOriginalInvoice, setCrnStatus, updateCrn, returnedQuantity } from '../services/crnService';
+
+interface CrnDetailsProps {
+  bill: BillData;
+  bills: BillData[]; // For matching the original invoice
+  onChange: (updatedBill: BillData) => void;
+  onScan: () => void; // Opens the camera for the CRN document
+  onOpenDocument: () => void;
+  isScanning: boolean;
+}
+
+const CrnDetails: React.FC<CrnDetailsProps> = ({ bill, bills, onChange, onScan, onOpenDocument, isScanning }) => {
+  const crn = crnOf(bill);
+  const original = crn.originalBillId ? bills.find(b => b.id === crn.originalBillId) : undefined;
+  const processed = crn.status === CrnStatus.PROCESSED;
+
+  const setItems = (items: ReturnedItem[]) => onChange(updateCrn(bill, { items }));
+  const editItem = (index: number, changes: Partial<ReturnedItem>) =>
+    setItems(crn.items.map((item, i) => i === index ? { ...item, ...changes } : item));
+
+  return (
+    <div className="p-3 bg-amber-50/50 rounded-xl border border-amber-100 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${processed ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+          {CRN_STATUS_LABELS[crn.status]}
+        </span>
+        <div className="flex gap-2">
+          {crn.document && (
+            <button onClick={onOpenDocument} className="text-[11px] font-bold text-indigo-600 flex items-center gap-1"><FileText size={12}/> Document</button>
+          )}
+          <button onClick={onScan} disabled={isScanning} className="text-[11px] font-bold text-gray-600 hover:text-black flex items-center gap-1 disabled:opacity-50">
+            {isScanning ? <Loader2 size={12} className="animate-spin"/> : <Camera size={12}/>} {crn.document ? 'Rescan' : 'Scan CRN'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={crn.crnNo}
+          onChange={e => onChange(updateCrn(bill, { crnNo: e.target.value }))}
+          placeholder="CRN #"
+          className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 outline-none"
+        />
+        <input
+          type="text"
+          value={crn.originalInvoiceNo}
+          onChange={e => onChange(linkOriginalInvoice(bill, bills, e.target.value))}
+          placeholder="Original Invoice #"
+          className="w-full px-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-amber-500/20 focus:border-amber-500 outline-none"
+        />
+      </div>
+      {crn.originalInvoiceNo && (
+        <p className={`text-[11px] flex items-center gap-1 ${original ? 'text-green-700' : 'text-gray-400'}`}>
+          <Link2 size={11}/>
+          {original ? `${original.customerName || 'Unknown Customer'} · ${original.entryDate}` : 'Original invoice not in the app'}
+        </p>
+      )}
+
+      <div className="space-y-1.5">
+        {crn.items.map((item, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item.product}
+              onChange={e => editItem(i, { product: e.target.value })}
+              placeholder="Product"
+              className="flex-1 min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-800 outline-none focus:border-amber-500"
+            />
+            <input
+              type="number"
+              min={0}
+              value={item.quantity || ''}
+              onChange={e => editItem(i, { quantity: Number(e.target.value) || 0 })}
+              placeholder="Qty"
+              className="w-16 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 text-right outline-none focus:border-amber-500"
+            />
+            <button onClick={() => setItems(crn.items.filter((_, j) => j !== i))} className="p-1 text-gray-300 hover:text-red-500" aria-label="Remove item"><X size={14}/></button>
+          </div>
+        ))}
+        <button onClick={() => setItems([...crn.items, { product: '', quantity: 1 }])} className="text-[11px] font-bold text-amber-700 flex items-center gap-1">
+          <Plus size={12}/> Add returned item
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-1 border-t border-amber-100">
+        <span className="text-[11px] text-gray-500">{returnedQuantity(crn)} returned</span>
+        {processed ? (
+          <button onClick={() => onChange(setCrnStatus(bill, CrnStatus.PENDING))} className="text-[11px] font-bold text-gray-500 hover:text-gray-800 flex items-center gap-1">
+            <RotateCcw size={11}/> Reopen
+          </button>
+        ) : (
+          <button onClick={() => onChange(setCrnStatus(bill, CrnStatus.PROCESSED))} className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-green-600 hover:bg-green-700 flex items-center gap-1">
+            <Check size={12} strokeWidth={3}/> Mark Processed
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CrnDetails;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Undo2, Check, RotateCcw, Link2, Inbox } from 'lucide-react';
+import { BillData, CrnStatus } from '../types';
+import { CRN_STATUS_LABELS, crnOf, crnQueue, formatReturnedItems, setCrnStatus } from '../services/crnService';
+
+interface CrnQueueProps {
+  bills: BillData[];
+  onUpdateBills: (updated: BillData[]) => void;
+  onClose: () => void;
+}
+
+const CrnQueue: React.FC<CrnQueueProps> = ({ bills, onUpdateBills, onClose }) => {
+  const [tab, setTab] = useState<CrnStatus>(CrnStatus.PENDING);
+  const queue = crnQueue(bills, tab).sort((a, b) => b.entryDate.localeCompare(a.entryDate));
+  const pendingCount = crnQueue(bills, CrnStatus.PENDING).length;
+
+  const move = (targets: BillData[], status: CrnStatus) => {
+    const now = Date.now();
+    onUpdateBills(targets.map(b => setCrnStatus(b, status, now)));
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><Undo2 size={22} className="text-amber-600"/> Returns (CRN)</h2>
+            <p className="text-sm text-gray-500">{pendingCount} waiting to be processed</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <div className="flex bg-gray-100 rounded-xl p-1">
+            {[CrnStatus.PENDING, CrnStatus.PROCESSED].map(status => (
+              <button
+                key={status}
+                onClick={() => setTab(status)}
+                className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${tab === status ? 'bg-white text-black shadow-sm' : 'text-gray-500'}`}
+              >
+                {CRN_STATUS_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2">
+          {queue.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-10 text-gray-400">
+              <Inbox size={40} className="mb-2 opacity-20"/>
+              <p className="text-xs font-bold opacity-60">No {CRN_STATUS_LABELS[tab].toLowerCase()} returns</p>
+            </div>
+          ) : queue.map(bill => {
+            const crn = crnOf(bill);
+            const original = crn.originalBillId ? bills.find(b => b.id === crn.originalBillId) : undefined;
+            return (
+              <div key={bill.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-gray-900 truncate">{bill.customerName || 'Unknown Customer'}</p>
+                  <p className="text-[11px] font-mono text-gray-500 truncate flex items-center gap-1">
+                    CRN {crn.crnNo || '---'}
+                    {crn.originalInvoiceNo && <> · {original && <Link2 size={10} className="text-green-600"/>} Inv {crn.originalInvoiceNo}</>}
+                  </p>
+                  <p className="text-[11px] text-gray-400 truncate">{formatReturnedItems(crn) || 'No items recorded'} · {bill.entryDate}</p>
+                </div>
+                {tab === CrnStatus.PENDING ? (
+                  <button onClick={() => move([bill], CrnStatus.PROCESSED)} className="shrink-0 p-2 rounded-lg text-white bg-green-600 hover:bg-green-700" title="Mark processed">
+                    <Check size={14} strokeWidth={3}/>
+                  </button>
+                ) : (
+                  <button onClick={() => move([bill], CrnStatus.PENDING)} className="shrink-0 p-2 rounded-lg text-gray-500 bg-white border border-gray-200 hover:text-black" title="Reopen">
+                    <RotateCcw size={14}/>
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {tab === CrnStatus.PENDING && queue.length > 1 && (
+          <div className="p-4 border-t border-gray-100">
+            <button onClick={() => move(queue, CrnStatus.PROCESSED)} className="w-full py-3 rounded-xl font-bold text-sm text-white bg-green-600 hover:bg-green-700 shadow-lg shadow-green-600/20 flex items-center justify-center gap-2">
+              <Check size={16} strokeWidth={3}/> Mark all {queue.length} processed
+            </button>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CrnQueue;
@@ -1,9 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Plus, Trash2, Check, CheckSquare, StickyNote, Sparkles, ChevronRight, ChevronLeft, Calendar, Send, Bot, User, ListPlus, Box, FileText, Zap, Eraser, MessageSquare, BarChart3, TrendingUp } from 'lucide-react';
+import { X, Plus, Trash2, Check, CheckSquare, StickyNote, Sparkles, ChevronRight, ChevronLeft, Calendar, Send, Bot, User, ListPlus, Box, FileText, Zap, Eraser, MessageSquare, BarChart3, TrendingUp, Printer, FileDown } from 'lucide-react';
 import { BillData, PackingStatus } from '../types';
-import { sendGeminiChat } from '../services/geminiService';
+import { sendChat } from '../services/aiService';
+import { downloadPackingReport, printPackingReport } from '../services/reportService';
+import { isPacked, isShipped } from '../services/statusService';
 
 interface Task {
   id: string;
@@ -111,8 +113,11 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
       const context = `
         Current Date: ${date}
         Bills Logged Today: ${bills.length}
-        Already Packed Today: ${bills.filter(b => b.status === PackingStatus.PACKED).length}
+        Already Packed Today: ${bills.filter(isPacked).length}
         Pending Packing Today: ${bills.filter(b => b.status === PackingStatus.PENDING).length}
+        Dispatched Today: ${bills.filter(isShipped).length}
+        Delivered Today: ${bills.filter(b => b.status === PackingStatus.DELIVERED).length}
+        Returned Today: ${bills.filter(b => b.status === PackingStatus.RETURNED).length}
         Total Active Tasks: ${tasks.filter(t => !t.completed).map(t => t.text).join(', ')}
         Notes: ${note}
       `;
@@ -122,7 +127,7 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
           parts: [{ text: m.text }]
       }));
 
-      const responseText = await sendGeminiChat(apiHistory, userMsg.text, context);
+      const responseText = await sendChat(apiHistory, userMsg.text, context);
       
       const botMsg: ChatMessage = { id: (Date.now() + 1).toString(), role: 'model', text: responseText, timestamp: Date.now() };
       setChatHistory(prev => [...prev, botMsg]);
@@ -137,8 +142,9 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
 
   const generateReport = () => {
       const total = bills.length;
-      const packed = bills.filter(b => b.status === PackingStatus.PACKED).length;
-      const summary = `📅 *Update ${date}*\nTotal: ${total} | Packed: ${packed}\nPending: ${total - packed}`;
+      const packed = bills.filter(isPacked).length;
+      const shipped = bills.filter(isShipped).length;
+      const summary = `📅 *Update ${date}*\nTotal: ${total} | Packed: ${packed}\nPending: ${total - packed}` + (shipped ? ` | Dispatched: ${shipped}` : '');
       setNote(prev => summary + '\n\n' + prev);
       setActiveTab('notes');
   };
@@ -153,13 +159,16 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
           const dateStr = d.toISOString().split('T')[0];
           
           const dayBills = allBills.filter(b => b.entryDate === dateStr);
-          const packed = dayBills.filter(b => b.status === PackingStatus.PACKED).length;
+          // Dispatched and delivered bills still count as packed that day
+          const packed = dayBills.filter(isPacked).length;
+          const shipped = dayBills.filter(isShipped).length;
           const total = dayBills.length;
           
           stats.push({
               day: d.toLocaleDateString('en-US', { weekday: 'short' }),
               date: dateStr,
               packed,
+              shipped,
               pending: total - packed,
               total
           });
@@ -270,10 +279,15 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                                 className="w-full bg-green-500/80 transition-all absolute bottom-0 inset-x-0" 
                                                 style={{ height: stat.total > 0 ? `${(stat.packed / stat.total) * 100}%` : '0%' }}
                                             />
+                                            {/* Dispatched Portion */}
+                                            <div 
+                                                className="w-full bg-blue-600/80 transition-all absolute bottom-0 inset-x-0" 
+                                                style={{ height: stat.total > 0 ? `${(stat.shipped / stat.total) * 100}%` : '0%' }}
+                                            />
                                         </div>
                                         {/* Exact Data Label */}
                                         <div className="absolute -top-7 left-1/2 -translate-x-1/2 bg-black text-white text-[9px] font-bold px-1.5 py-0.5 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap z-10 pointer-events-none shadow-sm">
-                                            {stat.packed}/{stat.total}
+                                            {stat.packed}/{stat.total}{stat.shipped > 0 && ` · ${stat.shipped} out`}
                                         </div>
                                         {/* Always visible small count */}
                                         {stat.total > 0 && (
@@ -293,7 +307,7 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                 <div className="absolute right-0 top-0 opacity-10 p-2"><Check size={48}/></div>
                                 <p className="text-[10px] font-bold text-green-700 uppercase tracking-wider mb-1">Total Packed</p>
                                 <p className="text-3xl font-black text-green-900">
-                                    {allBills.filter(b => b.status === PackingStatus.PACKED).length}
+                                    {allBills.filter(isPacked).length}
                                 </p>
                             </div>
                              <div className="bg-orange-50 p-4 rounded-2xl border border-orange-100 relative overflow-hidden">
@@ -304,6 +318,21 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                 </p>
                             </div>
                         </div>
+
+                        {/* Dispatch Stages */}
+                        <div className="grid grid-cols-4 gap-2">
+                            {[
+                                { label: 'Ready', status: PackingStatus.READY_FOR_DISPATCH, color: 'indigo' },
+                                { label: 'Out', status: PackingStatus.DISPATCHED, color: 'blue' },
+                                { label: 'Delivered', status: PackingStatus.DELIVERED, color: 'emerald' },
+                                { label: 'Returned', status: PackingStatus.RETURNED, color: 'red' },
+                            ].map(stage => (
+                                <div key={stage.status} className={`bg-${stage.color}-50 p-3 rounded-xl border border-${stage.color}-100 text-center`}>
+                                    <p className={`text-xl font-black text-${stage.color}-900`}>{allBills.filter(b => b.status === stage.status).length}</p>
+                                    <p className={`text-[9px] font-bold text-${stage.color}-700 uppercase tracking-wider`}>{stage.label}</p>
+                                </div>
+                            ))}
+                        </div>
                     </motion.div>
                 )}
 
@@ -367,6 +396,14 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                         <button onClick={generateReport} className="py-2.5 px-3 bg-yellow-50 hover:bg-yellow-100 text-yellow-700 border border-yellow-200 rounded-xl text-xs font-bold flex items-center justify-center gap-2 w-full transition-colors">
                             <Sparkles size={14}/> Auto-Generate Day Summary
                         </button>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => printPackingReport(date, allBills)} className="py-2.5 px-3 bg-white hover:bg-gray-50 text-gray-800 border border-gray-200 rounded-xl text-xs font-bold flex items-center justify-center gap-2 transition-colors">
+                                <Printer size={14}/> Print PDF Report
+                            </button>
+                            <button onClick={() => downloadPackingReport(date, allBills)} className="py-2.5 px-3 bg-white hover:bg-gray-50 text-gray-800 border border-gray-200 rounded-xl text-xs font-bold flex items-center justify-center gap-2 transition-colors">
+                                <FileDown size={14}/> Download PDF
+                            </button>
+                        </div>
                         <div className="flex-1 relative">
                             <textarea 
                                 value={note} onChange={e => setNote(e.target.value)}
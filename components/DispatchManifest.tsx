@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Truck, ChevronUp, ChevronDown, Printer, FileDown, FileSpreadsheet, MapPin, Send, ListRestart, AlertTriangle } from 'lucide-react';
+import { BillData, PackingStatus } from '../types';
+import {
+  DeliveryManifest, buildStops, orderStops, manifestBills, getManifest, saveManifest,
+  printManifest, downloadManifestPdf, exportManifestSheet
+} from '../services/manifestService';
+import { STATUS_LABELS, canTransition, transitionBill } from '../services/statusService';
+import { needsReview } from '../services/reviewService';
+
+interface DispatchManifestProps {
+  bills: BillData[];
+  currentDate: string;
+  onUpdateBills: (updated: BillData[]) => void;
+  onClose: () => void;
+}
+
+const DispatchManifest: React.FC<DispatchManifestProps> = ({ bills, currentDate, onUpdateBills, onClose }) => {
+  const [date, setDate] = useState(currentDate);
+  const [manifest, setManifest] = useState<DeliveryManifest>(() => getManifest(currentDate));
+
+  const stops = useMemo(
+    () => orderStops(buildStops(manifestBills(bills, date)), manifest.stopOrder),
+    [bills, date, manifest.stopOrder]
+  );
+  const stopBills = stops.flatMap(s => s.bills);
+  const totalBoxes = stops.reduce((sum, s) => sum + s.boxes, 0);
+  const notPacked = stopBills.filter(b => b.status === PackingStatus.PENDING).length;
+  const unreviewed = stopBills.filter(needsReview).length;
+  const readyable = stopBills.filter(b => canTransition(b, PackingStatus.READY_FOR_DISPATCH));
+  const dispatchable = stopBills.filter(b => canTransition(b, PackingStatus.DISPATCHED));
+
+  const update = (patch: Partial<DeliveryManifest>) => {
+    const next = { ...manifest, ...patch };
+    setManifest(next);
+    saveManifest(next);
+  };
+
+  const changeDate = (next: string) => {
+    setDate(next);
+    setManifest(getManifest(next));
+  };
+
+  const moveStop = (index: number, delta: number) => {
+    const order = stops.map(s => s.key);
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    update({ stopOrder: order });
+  };
+
+  const advance = (targets: BillData[], status: PackingStatus) => {
+    const now = Date.now();
+    onUpdateBills(targets.map(b => transitionBill(b, status, now)));
+  };
+
+  const handleDispatch = () => {
+    if (!manifest.vehicle.trim() && !manifest.driver.trim() && !window.confirm('No vehicle or driver set. Dispatch anyway?')) return;
+    advance(dispatchable, PackingStatus.DISPATCHED);
+  };
+
+  const run = (action: typeof printManifest) => {
+    try {
+      action(manifest, stops);
+    } catch (e) {
+      console.error("Manifest generation failed", e);
+      alert("Couldn't generate the manifest.");
+    }
+  };
+
+  let previousArea: string | null = null;
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><Truck size={22} className="text-blue-600"/> Dispatch</h2>
+            <p className="text-sm text-gray-500">{stops.length} {stops.length === 1 ? 'stop' : 'stops'} · {totalBoxes} boxes</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div className="grid grid-cols-3 gap-2">
+            <input type="date" value={date} onChange={e => changeDate(e.target.value)} className="p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"/>
+            <input type="text" value={manifest.vehicle} onChange={e => update({ vehicle: e.target.value })} placeholder="Vehicle" className="p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"/>
+            <input type="text" value={manifest.driver} onChange={e => update({ driver: e.target.value })} placeholder="Driver" className="p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"/>
+            <p className="col-span-3 text-[11px] text-gray-400">Vehicle, driver and stop order are saved on this device only. Backups include them; sync doesn't.</p>
+          </div>
+
+          {notPacked > 0 && (
+            <p className="p-3 bg-amber-50 border border-amber-200 rounded-xl text-xs font-bold text-amber-800 flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0"/> {notPacked} {notPacked === 1 ? 'bill is' : 'bills are'} not packed yet.
+            </p>
+          )}
+          {unreviewed > 0 && (
+            <p className="p-3 bg-amber-50 border border-amber-200 rounded-xl text-xs font-bold text-amber-800 flex items-center gap-2">
+              <AlertTriangle size={14} className="shrink-0"/> {unreviewed} {unreviewed === 1 ? 'bill has' : 'bills have'} unchecked AI details. Verify names and addresses before dispatch.
+            </p>
+          )}
+
+          {stops.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-10 text-gray-400">
+              <Truck size={40} className="mb-2 opacity-20"/>
+              <p className="text-xs font-bold opacity-60">No delivery bills for this date</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex justify-end">
+                <button onClick={() => update({ stopOrder: [] })} disabled={manifest.stopOrder.length === 0} className="text-[11px] font-bold text-gray-500 hover:text-black flex items-center gap-1 disabled:opacity-30">
+                  <ListRestart size={12}/> Sort by area
+                </button>
+              </div>
+              {stops.map((stop, i) => {
+                const areaHeader = stop.area !== previousArea;
+                previousArea = stop.area;
+                return (
+                  <React.Fragment key={stop.key}>
+                    {areaHeader && (
+                      <p className="pt-2 text-[10px] font-bold text-gray-400 uppercase tracking-wider flex items-center gap-1"><MapPin size={11}/> {stop.area}</p>
+                    )}
+                    <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-xl border border-gray-100">
+                      <span className="w-6 text-center text-lg font-black text-gray-900">{i + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-bold text-gray-900 truncate">{stop.customerName || 'Unknown Customer'}</p>
+                        <p className="text-[11px] text-gray-500 truncate">{stop.address || 'No address'}</p>
+                        <p className="text-[10px] font-mono text-gray-400 truncate">
+                          {stop.bills.map(b => `${b.invoiceNo || '---'} (${STATUS_LABELS[b.status]})`).join(' · ')}
+                        </p>
+                      </div>
+                      <div className="text-center shrink-0">
+                        <p className="text-sm font-black text-gray-900 leading-none">{stop.boxes}</p>
+                        <p className="text-[9px] font-bold text-gray-400 uppercase">Box</p>
+                      </div>
+                      <div className="flex flex-col shrink-0">
+                        <button onClick={() => moveStop(i, -1)} disabled={i === 0} className="p-1 text-gray-400 hover:text-black disabled:opacity-20"><ChevronUp size={16}/></button>
+                        <button onClick={() => moveStop(i, 1)} disabled={i === stops.length - 1} className="p-1 text-gray-400 hover:text-black disabled:opacity-20"><ChevronDown size={16}/></button>
+                      </div>
+                    </div>
+                  </React.Fragment>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 space-y-3">
+          <div className="flex gap-2">
+            <button onClick={() => run(printManifest)} disabled={stops.length === 0} className="flex-1 py-2.5 rounded-xl font-bold text-xs text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center justify-center gap-1.5 disabled:opacity-40">
+              <Printer size={14}/> Print
+            </button>
+            <button onClick={() => run(downloadManifestPdf)} disabled={stops.length === 0} className="flex-1 py-2.5 rounded-xl font-bold text-xs text-gray-700 bg-gray-100 hover:bg-gray-200 flex items-center justify-center gap-1.5 disabled:opacity-40">
+              <FileDown size={14}/> PDF
+            </button>
+            <button onClick={() => run(exportManifestSheet)} disabled={stops.length === 0} className="flex-1 py-2.5 rounded-xl font-bold text-xs text-green-700 bg-green-50 hover:bg-green-100 flex items-center justify-center gap-1.5 disabled:opacity-40">
+              <FileSpreadsheet size={14}/> Excel
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => advance(readyable, PackingStatus.READY_FOR_DISPATCH)} disabled={readyable.length === 0} className="flex-1 py-3 rounded-xl font-bold text-sm text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-40">
+              Mark {readyable.length} Ready
+            </button>
+            <button onClick={handleDispatch} disabled={dispatchable.length === 0} className="flex-1 py-3 rounded-xl font-bold text-sm text-white bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/20 flex items-center justify-center gap-2 disabled:opacity-40">
+              <Send size={16}/> Dispatch {dispatchable.length}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default DispatchManifest;
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, FileSpreadsheet, Download } from 'lucide-react';
+import { BillData, PackingStatus } from '../types';
+import {
+  EXPORT_COLUMNS, EXPORT_FLAG_LABELS, ExportFlag, ExportOptions, NO_GROUP_LABEL, exportBills, filterBillsForExport
+} from '../services/exportService';
+import { STATUS_LABELS } from '../services/statusService';
+
+interface ExportDialogProps {
+  bills: BillData[];
+  currentDate: string;
+  onClose: () => void;
+}
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${active ? 'bg-black text-white border-black' : 'bg-white text-gray-500 border-gray-200 hover:border-gray-400'}`}
+  >
+    {children}
+  </button>
+);
+
+const Section: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="space-y-2">
+    <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</p>
+    <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ bills, currentDate, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    from: currentDate,
+    to: currentDate,
+    statuses: Object.values(PackingStatus),
+    flags: [],
+    groups: [],
+    columns: EXPORT_COLUMNS.map(c => c.key),
+    splitBy: 'none',
+    includeSummary: true,
+    includeBoxes: true,
+    format: 'xlsx',
+  });
+  const set = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const groupNames = useMemo(
+    () => Array.from(new Set(bills.map(b => b.description.trim() || NO_GROUP_LABEL))).sort(),
+    [bills]
+  );
+  const matching = useMemo(() => filterBillsForExport(bills, options), [bills, options]);
+
+  const presets: { label: string; from: string; to: string }[] = [
+    { label: 'This day', from: currentDate, to: currentDate },
+    { label: 'Last 7 days', from: shiftDate(currentDate, -6), to: currentDate },
+    { label: 'This month', from: currentDate.slice(0, 8) + '01', to: currentDate },
+    { label: 'All time', from: '', to: '' },
+  ];
+
+  const handleExport = () => {
+    exportBills(bills, options);
+    onClose();
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><FileSpreadsheet size={22} className="text-green-600"/> Export</h2>
+            <p className="text-sm text-gray-500">{matching.length} {matching.length === 1 ? 'bill matches' : 'bills match'} the filters.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          <Section label="Entry Date">
+            {presets.map(p => (
+              <Chip key={p.label} active={options.from === p.from && options.to === p.to} onClick={() => set({ from: p.from, to: p.to })}>{p.label}</Chip>
+            ))}
+            <div className="w-full flex items-center gap-2">
+              <input type="date" value={options.from} onChange={e => set({ from: e.target.value })} className="flex-1 p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"/>
+              <span className="text-xs font-bold text-gray-400">to</span>
+              <input type="date" value={options.to} onChange={e => set({ to: e.target.value })} className="flex-1 p-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500"/>
+            </div>
+          </Section>
+
+          <Section label="Status">
+            {Object.values(PackingStatus).map(s => (
+              <Chip key={s} active={options.statuses.includes(s)} onClick={() => set({ statuses: toggle(options.statuses, s) })}>
+                {STATUS_LABELS[s]}
+              </Chip>
+            ))}
+          </Section>
+
+          <Section label="Only bills flagged">
+            {(Object.keys(EXPORT_FLAG_LABELS) as ExportFlag[]).map(f => (
+              <Chip key={f} active={options.flags.includes(f)} onClick={() => set({ flags: toggle(options.flags, f) })}>{EXPORT_FLAG_LABELS[f]}</Chip>
+            ))}
+          </Section>
+
+          {groupNames.length > 1 && (
+            <Section label={options.groups.length === 0 ? 'Groups (all)' : `Groups (${options.groups.length})`}>
+              {groupNames.map(g => (
+                <Chip key={g} active={options.groups.includes(g)} onClick={() => set({ groups: toggle(options.groups, g) })}>{g}</Chip>
+              ))}
+            </Section>
+          )}
+
+          <Section label="Columns">
+            {EXPORT_COLUMNS.map(c => (
+              <Chip key={c.key} active={options.columns.includes(c.key)} onClick={() => set({ columns: toggle(options.columns, c.key) })}>{c.label}</Chip>
+            ))}
+          </Section>
+
+          <Section label="Format">
+            <Chip active={options.format === 'xlsx'} onClick={() => set({ format: 'xlsx' })}>Excel</Chip>
+            <Chip active={options.format === 'csv'} onClick={() => set({ format: 'csv' })}>CSV</Chip>
+          </Section>
+
+          {options.format === 'xlsx' ? (
+            <Section label="Sheets">
+              <Chip active={options.splitBy === 'none'} onClick={() => set({ splitBy: 'none' })}>Single sheet</Chip>
+              <Chip active={options.splitBy === 'day'} onClick={() => set({ splitBy: 'day' })}>One per day</Chip>
+              <Chip active={options.splitBy === 'group'} onClick={() => set({ splitBy: 'group' })}>One per group</Chip>
+              <label className="w-full flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer pt-1">
+                <input type="checkbox" checked={options.includeSummary} onChange={e => set({ includeSummary: e.target.checked })} className="accent-black"/>
+                Summary sheet (boxes, packed vs pending, CRN)
+              </label>
+              <label className="w-full flex items-center gap-2 text-xs font-bold text-gray-600 cursor-pointer">
+                <input type="checkbox" checked={options.includeBoxes} onChange={e => set({ includeBoxes: e.target.checked })} className="accent-black"/>
+                Boxes sheet (one row per box with weight and notes)
+              </label>
+            </Section>
+          ) : (
+            <p className="text-[11px] text-gray-500">CSV is a single table without the summary.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={handleExport}
+            disabled={matching.length === 0 || options.columns.length === 0}
+            className="w-full py-3 rounded-xl font-bold text-white bg-green-600 hover:bg-green-700 shadow-lg shadow-green-600/20 flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Download size={16}/> Export {matching.length} {matching.length === 1 ? 'bill' : 'bills'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,201 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, FileUp, ChevronLeft, AlertTriangle, Copy, Check, Loader2, Calendar } from 'lucide-react';
+import { BillData } from '../types';
+import {
+  IMPORT_FIELDS, IMPORT_FIELD_LABELS, ImportField, ColumnMapping, ImportDraft, ParsedSheet,
+  readSpreadsheet, guessColumnMapping, buildImportRows
+} from '../services/importService';
+
+interface ImportWizardProps {
+  existingBills: BillData[];
+  defaultEntryDate: string;
+  onImport: (drafts: ImportDraft[], entryDate: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ existingBills, defaultEntryDate, onImport, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<'file' | 'map' | 'preview'>('file');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [entryDate, setEntryDate] = useState(defaultEntryDate);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [error, setError] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(
+    () => sheet ? buildImportRows(sheet, mapping, existingBills) : [],
+    [sheet, mapping, existingBills]
+  );
+  const invalidCount = rows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = rows.filter(r => r.errors.length === 0 && r.duplicate).length;
+  const importable = rows.filter(r => r.errors.length === 0 && !(skipDuplicates && r.duplicate));
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) return setError("No rows found below the header.");
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('map');
+    } catch (e) {
+      console.error("Import read failed", e);
+      setError("Couldn't read that file. Use .xlsx, .xls or .csv.");
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (importable.length === 0) return;
+    setIsImporting(true);
+    try {
+      await onImport(importable.map(r => r.draft), entryDate);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-2xl max-h-[90vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+        <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+          <div className="flex items-start gap-2">
+            {step !== 'file' && (
+              <button onClick={() => setStep(step === 'preview' ? 'map' : 'file')} className="p-1.5 -ml-1.5 mt-0.5 rounded-lg hover:bg-gray-100 text-gray-500"><ChevronLeft size={18}/></button>
+            )}
+            <div>
+              <h2 className="text-xl font-black mb-1 flex items-center gap-2"><FileUp size={22} className="text-green-600"/> Import Bills</h2>
+              <p className="text-sm text-gray-500">
+                {step === 'file' && 'Excel or CSV register, one bill per row, headers in the first row.'}
+                {step === 'map' && `${fileName}: match columns to bill fields.`}
+                {step === 'preview' && `${importable.length} of ${rows.length} rows ready to import.`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {step === 'file' && (
+            <>
+              <input type="file" accept=".xlsx,.xls,.csv" ref={fileInputRef} onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} className="hidden" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full py-12 rounded-2xl border-2 border-dashed border-gray-200 text-sm font-bold text-gray-500 hover:border-green-400 hover:text-green-700 transition-colors flex flex-col items-center gap-2"
+              >
+                <FileUp size={28}/> Choose spreadsheet
+              </button>
+            </>
+          )}
+
+          {step === 'map' && sheet && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => {
+                const column = mapping[field];
+                const sample = column === undefined ? '' : sheet.rows.find(r => r[column])?.[column] || '';
+                return (
+                  <div key={field}>
+                    <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">{IMPORT_FIELD_LABELS[field]}</label>
+                    <select
+                      value={column ?? ''}
+                      onChange={e => setColumn(field, e.target.value)}
+                      className="w-full p-2.5 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">— Skip —</option>
+                      {sheet.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                    </select>
+                    {sample && <p className="text-[10px] text-gray-400 mt-1 truncate">e.g. {sample}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold">
+                  <Calendar size={14} className="text-gray-500"/>
+                  <input type="date" value={entryDate} onChange={e => setEntryDate(e.target.value)} className="bg-transparent outline-none"/>
+                </label>
+                {duplicateCount > 0 && (
+                  <label className="flex items-center gap-2 text-xs font-bold text-amber-700 cursor-pointer">
+                    <input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="accent-amber-600"/>
+                    Skip {duplicateCount} duplicate {duplicateCount === 1 ? 'invoice' : 'invoices'}
+                  </label>
+                )}
+                {invalidCount > 0 && (
+                  <span className="text-xs font-bold text-red-600">{invalidCount} {invalidCount === 1 ? 'row has' : 'rows have'} errors and will be skipped</span>
+                )}
+              </div>
+
+              <div className="border border-gray-100 rounded-2xl divide-y divide-gray-100">
+                {rows.map(row => {
+                  const skipped = row.errors.length > 0 || (skipDuplicates && !!row.duplicate);
+                  return (
+                    <div key={row.rowNumber} className={`px-4 py-2.5 flex items-start gap-3 text-sm ${skipped ? 'bg-gray-50 opacity-70' : ''}`}>
+                      <span className="text-[10px] font-mono text-gray-400 w-8 shrink-0 pt-0.5">#{row.rowNumber}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-gray-900 truncate">{row.draft.customerName || 'Unknown Customer'}</p>
+                        <p className="text-[11px] text-gray-500 truncate">
+                          {row.draft.invoiceNo || '---'} · {row.draft.boxCount ?? 0} boxes{row.draft.description ? ` · ${row.draft.description}` : ''}
+                        </p>
+                        {row.errors.map(err => (
+                          <p key={err} className="text-[11px] font-bold text-red-600 flex items-center gap-1"><AlertTriangle size={10}/> {err}</p>
+                        ))}
+                      </div>
+                      {row.duplicate && row.errors.length === 0 && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full bg-amber-100 text-amber-700 shrink-0 flex items-center gap-1">
+                          <Copy size={10}/> {row.duplicate === 'existing' ? 'Already saved' : 'Repeated'}
+                        </span>
+                      )}
+                      {!skipped && <Check size={16} className="text-green-600 shrink-0 mt-0.5"/>}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="mt-4 text-xs font-bold text-red-600 flex items-center gap-1.5"><AlertTriangle size={14}/> {error}</p>
+          )}
+        </div>
+
+        {step !== 'file' && (
+          <div className="p-4 border-t border-gray-100">
+            {step === 'map' ? (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={mapping.invoiceNo === undefined && mapping.customerName === undefined}
+                className="w-full py-3 rounded-xl font-bold text-white bg-black shadow-lg shadow-black/20 disabled:opacity-40"
+              >
+                Preview {rows.length} rows
+              </button>
+            ) : (
+              <button
+                onClick={handleImport}
+                disabled={importable.length === 0 || isImporting || !entryDate}
+                className="w-full py-3 rounded-xl font-bold text-white bg-green-600 hover:bg-green-700 shadow-lg shadow-green-600/20 flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                {isImporting && <Loader2 size={16} className="animate-spin"/>} Import {importable.length} {importable.length === 1 ? 'bill' : 'bills'}
+              </button>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ImportWizard;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Tag, Printer, Download, Loader2 } from 'lucide-react';
+import { BillData } from '../types';
+import { LABEL_LAYOUTS, LabelFormat, expandBoxLabels, printLabels, downloadLabels } from '../services/labelService';
+
+interface LabelPrinterProps {
+  bills: BillData[];
+  onClose: () => void;
+}
+
+const LABEL_FORMAT_KEY = 'grace_label_format';
+
+const LabelPrinter: React.FC<LabelPrinterProps> = ({ bills, onClose }) => {
+  const [format, setFormat] = useState<LabelFormat>(() => (localStorage.getItem(LABEL_FORMAT_KEY) as LabelFormat) || 'a4-8');
+  const [skip, setSkip] = useState(0);
+  const [busy, setBusy] = useState(false);
+
+  const layout = LABEL_LAYOUTS[format];
+  const perPage = layout.columns * layout.rows;
+  const labelCount = expandBoxLabels(bills).length;
+  const withoutBoxes = bills.filter(b => b.boxes.length === 0).length;
+
+  const chooseFormat = (f: LabelFormat) => {
+    setFormat(f);
+    setSkip(0);
+    localStorage.setItem(LABEL_FORMAT_KEY, f);
+  };
+
+  const run = async (action: typeof printLabels) => {
+    setBusy(true);
+    try {
+      await action(bills, format, skip);
+    } catch (e) {
+      console.error("Label generation failed", e);
+      alert("Couldn't generate the labels.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[300] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl ring-1 ring-white/10 space-y-5">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-black mb-1 flex items-center gap-2"><Tag size={22} className="text-indigo-500"/> Box Labels</h2>
+            <p className="text-sm text-gray-500">
+              {labelCount} {labelCount === 1 ? 'label' : 'labels'} for {bills.length} {bills.length === 1 ? 'bill' : 'bills'}, one per box.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+        </div>
+
+        <div className="space-y-2">
+          {(Object.keys(LABEL_LAYOUTS) as LabelFormat[]).map(f => (
+            <button
+              key={f}
+              onClick={() => chooseFormat(f)}
+              className={`w-full p-3 rounded-xl border-2 text-left text-sm font-bold transition-colors ${format === f ? 'border-black bg-gray-50' : 'border-gray-100 text-gray-500 hover:border-gray-300'}`}
+            >
+              {LABEL_LAYOUTS[f].name}
+              <span className="block text-[11px] font-medium text-gray-400">
+                {LABEL_LAYOUTS[f].label[0]} x {LABEL_LAYOUTS[f].label[1]} mm
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {perPage > 1 && (
+          <div>
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1 block">Skip used labels on first sheet</label>
+            <input
+              type="number" min={0} max={perPage - 1} value={skip}
+              onChange={e => setSkip(Math.min(perPage - 1, Math.max(0, Number(e.target.value) || 0)))}
+              className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl font-medium text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+          </div>
+        )}
+
+        {withoutBoxes > 0 && (
+          <p className="text-[11px] font-bold text-amber-700">{withoutBoxes} {withoutBoxes === 1 ? 'bill has' : 'bills have'} no box count and will be skipped.</p>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => run(downloadLabels)}
+            disabled={busy || labelCount === 0}
+            className="flex-1 py-3 rounded-xl font-bold text-gray-600 bg-gray-100 hover:bg-gray-200 flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Download size={16}/> PDF
+          </button>
+          <button
+            onClick={() => run(printLabels)}
+            disabled={busy || labelCount === 0}
+            className="flex-1 py-3 rounded-xl font-bold text-white bg-black shadow-lg shadow-black/20 flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            {busy ? <Loader2 size={16} className="animate-spin"/> : <Printer size={16}/>} Print
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default LabelPrinter;
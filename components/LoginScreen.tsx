@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Lock, User, ArrowRight, ShieldCheck } from 'lucide-react';
+import { startSession } from '../services/sessionService';
 
 interface LoginScreenProps {
   onLogin: () => void;
@@ -25,7 +26,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin }) => {
     // Simulate network delay for better UX (mimicking an API call)
     setTimeout(() => {
         if (username.trim() === correctUser && password === correctPass) {
-            localStorage.setItem('grace_session', 'loggedin');
+            startSession(username.trim());
             onLogin();
         } else {
             setError('Invalid credentials');
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Camera, Eraser, Check, Loader2, PenLine, User } from 'lucide-react';
+import { BillData, ProofOfDelivery as ProofOfDeliveryData } from '../types';
+import { blobToDataUrl, compressImage, saveAttachment } from '../services/storageService';
+import { getActor } from '../services/sessionService';
+import CameraCapture from './CameraCapture';
+
+interface ProofOfDeliveryProps {
+  bill: BillData;
+  onSave: (proof: ProofOfDeliveryData) => void;
+  onClose: () => void;
+}
+
+// Finger/stylus signature on a canvas; reports whether anything has been drawn
+const SignaturePad: React.FC<{ canvasRef: React.RefObject<HTMLCanvasElement>; onDrawn: (drawn: boolean) => void }> = ({ canvasRef, onDrawn }) => {
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // Match the backing store to the rendered size so strokes land under the finger
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, rect.width, rect.height);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111827';
+  }, []);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    onDrawn(true);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    onDrawn(false);
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={() => { drawing.current = false; }}
+        onPointerCancel={() => { drawing.current = false; }}
+        className="w-full h-40 bg-white rounded-xl border-2 border-dashed border-gray-200 touch-none cursor-crosshair"
+      />
+      <button onClick={clear} className="absolute top-2 right-2 p-1.5 bg-gray-100 rounded-lg text-gray-500 hover:bg-gray-200" aria-label="Clear signature">
+        <Eraser size={14}/>
+      </button>
+    </div>
+  );
+};
+
+const ProofOfDelivery: React.FC<ProofOfDeliveryProps> = ({ bill, onSave, onClose }) => {
+  const [receiverName, setReceiverName] = useState(bill.customerName);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [hasSignature, setHasSignature] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const signatureRef = useRef<HTMLCanvasElement>(null);
+
+  const canSave = !!receiverName.trim() && (hasSignature || !!photo) && !isSaving;
+
+  const handleCapture = async (file: File) => {
+    try {
+      setPhoto(await compressImage(await blobToDataUrl(file)));
+    } catch (e) {
+      console.error("Failed to read delivery photo", e);
+      alert("Couldn't use that photo. Please try again.");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const signatureUrl = hasSignature ? signatureRef.current?.toDataURL('image/png') : undefined;
+      onSave({
+        receiverName: receiverName.trim(),
+        deliveredAt: Date.now(),
+        capturedBy: getActor(),
+        ...(photo ? { photo: await saveAttachment(photo) } : {}),
+        ...(signatureUrl ? { signature: await saveAttachment(signatureUrl) } : {}),
+      });
+    } catch (e) {
+      console.error("Failed to save proof of delivery", e);
+      alert("Couldn't save the proof of delivery. Please try again.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[150] bg-gray-900/60 backdrop-blur-sm flex items-center justify-center p-4">
+        <motion.div initial={{scale:0.9, y: 20}} animate={{scale:1, y: 0}} exit={{scale:0.9, y: 20}} className="bg-white w-full max-w-md max-h-[90vh] rounded-3xl shadow-2xl ring-1 ring-white/10 flex flex-col overflow-hidden">
+          <div className="flex justify-between items-start p-6 pb-4 border-b border-gray-100">
+            <div>
+              <h2 className="text-xl font-black mb-1">Proof of Delivery</h2>
+              <p className="text-sm text-gray-500 truncate">{bill.invoiceNo || '---'} · {bill.customerName || 'Unknown Customer'}</p>
+            </div>
+            <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200 text-gray-500"><X size={18}/></button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <label className="block space-y-2">
+              <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1"><User size={12}/> Received by</span>
+              <input
+                type="text"
+                value={receiverName}
+                onChange={e => setReceiverName(e.target.value)}
+                placeholder="Receiver's name"
+                className="w-full p-3 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </label>
+
+            <div className="space-y-2">
+              <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1"><PenLine size={12}/> Signature</span>
+              <SignaturePad canvasRef={signatureRef} onDrawn={setHasSignature}/>
+            </div>
+
+            <div className="space-y-2">
+              <span className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1"><Camera size={12}/> Photo</span>
+              {photo ? (
+                <div className="relative rounded-xl overflow-hidden border border-gray-200">
+                  <img src={photo} alt="Delivery" className="w-full max-h-48 object-cover"/>
+                  <button onClick={() => setShowCamera(true)} className="absolute bottom-2 right-2 px-3 py-1.5 bg-black/70 text-white text-xs font-bold rounded-lg">Retake</button>
+                </div>
+              ) : (
+                <button onClick={() => setShowCamera(true)} className="w-full py-6 rounded-xl border-2 border-dashed border-gray-200 text-gray-400 hover:text-gray-700 hover:border-gray-300 font-bold text-xs flex flex-col items-center gap-1">
+                  <Camera size={20}/> Take a photo of the handover
+                </button>
+              )}
+            </div>
+
+            <p className="text-[11px] text-gray-400">A signature or a photo is required.</p>
+          </div>
+
+          <div className="p-4 border-t border-gray-100">
+            <button onClick={handleSave} disabled={!canSave} className="w-full py-3 rounded-xl font-bold text-sm text-white bg-emerald-600 hover:bg-emerald-700 shadow-lg shadow-emerald-600/20 flex items-center justify-center gap-2 disabled:opacity-40">
+              {isSaving ? <Loader2 size={16} className="animate-spin"/> : <Check size={16} strokeWidth={3}/>} Mark Delivered
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+      {showCamera && <CameraCapture onCapture={handleCapture} onClose={() => setShowCamera(false)}/>}
+    </>
+  );
+};
+
+export default ProofOfDelivery;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Link2, Search, Unlink } from 'lucide-react';
+import { BillData } from '../types';
+import { STATUS_LABELS } from '../services/statusService';
+import {
+  REVISION_LABELS, canHaveParent, childrenOf, linkParent, parentOf, revisionTimeline, searchParentCandidates, unlinkParent
+} from '../services/revisionService';
+
+interface RevisionLinksProps {
+  bill: BillData;
+  bills: BillData[];
+  onChange: (updatedBill: BillData) => void;
+}
+
+const KIND_COLORS = { original: 'bg-gray-800', edited: 'bg-purple-500', additional: 'bg-pink-500' };
+
+const billSummary = (bill: BillData) =>
+  `${bill.invoiceNo || '---'} · ${bill.customerName || 'Unknown Customer'} · ${bill.entryDate}`;
+
+// Parent picker for edited/additional bills, and the revision timeline of whichever original this bill belongs to
+const RevisionLinks: React.FC<RevisionLinksProps> = ({ bill, bills, onChange }) => {
+  const [query, setQuery] = useState('');
+  const parent = parentOf(bills, bill);
+  const root = parent ?? (childrenOf(bills, bill).length > 0 ? bill : undefined);
+  const candidates = searchParentCandidates(bills, bill, query);
+
+  if (!canHaveParent(bill) && !root) return null;
+
+  return (
+    <div className="space-y-3">
+      {canHaveParent(bill) && (
+        bill.parentBillId ? (
+          <div className="flex items-center gap-2 p-2.5 bg-white rounded-xl border border-gray-200">
+            <Link2 size={14} className="text-gray-400 shrink-0"/>
+            <p className="flex-1 min-w-0 text-xs font-bold text-gray-800 truncate">
+              {parent ? billSummary(parent) : 'Original no longer in the app'}
+            </p>
+            <button onClick={() => onChange(unlinkParent(bill))} className="p-1 text-gray-400 hover:text-red-500" title="Unlink"><Unlink size={14}/></button>
+          </div>
+        ) : (
+          <div className="space-y-1.5">
+            <div className="relative">
+              <div className="absolute left-3 top-2.5 text-gray-400"><Search size={14}/></div>
+              <input
+                type="text"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Find original by invoice # or customer"
+                className="w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+              />
+            </div>
+            {candidates.map(c => (
+              <button
+                key={c.id}
+                onClick={() => { onChange(linkParent(bill, c)); setQuery(''); }}
+                className="w-full text-left px-3 py-2 bg-white rounded-lg border border-gray-100 hover:border-indigo-200 hover:bg-indigo-50 text-xs font-medium text-gray-700 truncate"
+              >
+                {billSummary(c)}
+              </button>
+            ))}
+            {query.trim() && candidates.length === 0 && <p className="text-[11px] text-gray-400 pl-1">No matching bills</p>}
+          </div>
+        )
+      )}
+
+      {root && (
+        <ol className="space-y-1 border-l-2 border-gray-100 pl-3">
+          {revisionTimeline(bills, root).map(({ bill: rev, kind }) => (
+            <li key={rev.id} className={`text-[11px] flex items-center gap-2 ${rev.id === bill.id ? 'font-bold text-gray-900' : 'text-gray-500'}`}>
+              <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${KIND_COLORS[kind]}`}/>
+              <span className="w-16 shrink-0">{REVISION_LABELS[kind]}</span>
+              <span className="truncate flex-1">{rev.invoiceNo || '---'} · {rev.entryDate}</span>
+              <span className="shrink-0 text-gray-400">{STATUS_LABELS[rev.status]}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RevisionLinks;
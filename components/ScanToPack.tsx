@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Check, AlertTriangle, XCircle, Package, RotateCcw } from 'lucide-react';
+import { BillData, PackingStatus } from '../types';
+import CameraCapture from './CameraCapture';
+import { parseBoxCode } from '../services/labelService';
+import { markBoxPacked, boxesRemaining, packedBoxCount } from '../services/boxService';
+import { supersededWarning } from '../services/revisionService';
+
+interface ScanToPackProps {
+  bills: BillData[];
+  onUpdateBill: (bill: BillData) => void;
+  onClose: () => void;
+}
+
+interface Feedback {
+  kind: 'ok' | 'warn' | 'error';
+  title: string;
+  detail?: string;
+}
+
+interface PendingScan {
+  bill: BillData;
+  box: number;
+}
+
+const groupName = (bill: BillData) => bill.description.trim();
+
+const FEEDBACK_STYLES: Record<Feedback['kind'], string> = {
+  ok: 'bg-green-500/15 border-green-500/40 text-green-300',
+  warn: 'bg-amber-500/15 border-amber-500/40 text-amber-300',
+  error: 'bg-red-500/15 border-red-500/40 text-red-300',
+};
+
+const ScanToPack: React.FC<ScanToPackProps> = ({ bills, onUpdateBill, onClose }) => {
+  const [activeBillId, setActiveBillId] = useState<string | null>(null);
+  const [activeGroup, setActiveGroup] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [pending, setPending] = useState<PendingScan | null>(null);
+  const [scannedCount, setScannedCount] = useState(0);
+
+  const activeBill = bills.find(b => b.id === activeBillId);
+
+  const pack = (bill: BillData, box: number) => {
+    const updated = markBoxPacked(bill, box);
+    onUpdateBill(updated);
+    setActiveBillId(bill.id);
+    setActiveGroup(groupName(bill) || null);
+    setPending(null);
+    setScannedCount(n => n + 1);
+    navigator.vibrate?.(60);
+
+    const left = boxesRemaining(updated);
+    setFeedback(updated.status === PackingStatus.PACKED && bill.status !== PackingStatus.PACKED
+      ? { kind: 'ok', title: `${bill.customerName || bill.invoiceNo} packed`, detail: `All ${bill.boxes.length} boxes scanned` }
+      : { kind: 'ok', title: `Box ${box} of ${bill.boxes.length}`, detail: `${bill.customerName || 'Unknown Customer'} · ${left} left` });
+  };
+
+  const handleScan = (text: string) => {
+    const code = parseBoxCode(text);
+    if (!code) {
+      setFeedback({ kind: 'error', title: 'Not a box label', detail: text.slice(0, 40) });
+      return;
+    }
+    const bill = bills.find(b => b.id === code.billId);
+    if (!bill) {
+      setFeedback({ kind: 'error', title: 'Unknown bill', detail: 'This label belongs to a bill that is not on this device.' });
+      return;
+    }
+    const box = bill.boxes.find(b => b.index === code.box);
+    if (!box) {
+      setFeedback({ kind: 'error', title: `Box ${code.box} doesn't exist`, detail: `${bill.customerName} has ${bill.boxes.length} boxes. Reprint its labels.` });
+      return;
+    }
+    if (box.status === PackingStatus.PACKED) {
+      setFeedback({ kind: 'warn', title: `Box ${code.box} already scanned`, detail: `${bill.customerName || 'Unknown Customer'} · ${boxesRemaining(bill)} left` });
+      return;
+    }
+
+    // First box of an edited revision whose original already went into boxes
+    const superseded = packedBoxCount(bill) === 0 && supersededWarning(bills, bill);
+    if (superseded) {
+      setPending({ bill, box: code.box });
+      setFeedback({ kind: 'warn', title: 'Revised invoice', detail: superseded });
+      navigator.vibrate?.([80, 60, 80]);
+      return;
+    }
+
+    // Wrong batch: a different group, or another bill while the current one still has boxes out
+    if (activeGroup !== null && groupName(bill) !== activeGroup) {
+      setPending({ bill, box: code.box });
+      setFeedback({ kind: 'warn', title: 'Wrong group', detail: `Box belongs to ${groupName(bill) || 'no group'}, batch is ${activeGroup}.` });
+      navigator.vibrate?.([80, 60, 80]);
+      return;
+    }
+    if (activeBill && activeBill.id !== bill.id && boxesRemaining(activeBill) > 0) {
+      setPending({ bill, box: code.box });
+      setFeedback({
+        kind: 'warn',
+        title: 'Different bill',
+        detail: `${activeBill.customerName || activeBill.invoiceNo} still has ${boxesRemaining(activeBill)} boxes to scan.`,
+      });
+      navigator.vibrate?.([80, 60, 80]);
+      return;
+    }
+    pack(bill, code.box);
+  };
+
+  const resetBatch = () => {
+    setActiveBillId(null);
+    setActiveGroup(null);
+    setPending(null);
+    setFeedback(null);
+  };
+
+  const panel = (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs font-bold text-gray-400">
+        <span className="flex items-center gap-1.5">
+          <Package size={14}/>
+          {activeBill
+            ? `${activeBill.customerName || activeBill.invoiceNo}: ${packedBoxCount(activeBill)}/${activeBill.boxes.length}`
+            : 'Scan a box label to start'}
+        </span>
+        <span>{scannedCount} scanned</span>
+      </div>
+
+      {feedback && (
+        <div className={`p-3 rounded-2xl border flex items-start gap-2 ${FEEDBACK_STYLES[feedback.kind]}`}>
+          {feedback.kind === 'ok' ? <Check size={18} className="shrink-0"/> : feedback.kind === 'warn' ? <AlertTriangle size={18} className="shrink-0"/> : <XCircle size={18} className="shrink-0"/>}
+          <div className="min-w-0">
+            <p className="text-sm font-black text-white">{feedback.title}</p>
+            {feedback.detail && <p className="text-xs">{feedback.detail}</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {pending && (
+          <button onClick={() => pack(pending.bill, pending.box)} className="flex-1 py-3 rounded-xl font-bold text-black bg-amber-400 active:scale-95 transition-transform">
+            Pack anyway
+          </button>
+        )}
+        {(activeBillId || activeGroup) && (
+          <button onClick={resetBatch} className="flex-1 py-3 rounded-xl font-bold text-white bg-gray-800 flex items-center justify-center gap-2 active:scale-95 transition-transform">
+            <RotateCcw size={16}/> New batch
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return <CameraCapture onClose={onClose} onScan={handleScan} scanPanel={panel} />;
+};
+
+export default ScanToPack;
@@ -0,0 +1,66 @@
+// Contract between the app and whichever AI reads bills and answers chat.
+// Providers never throw: a failed extraction resolves with `failed` set so the bill can be flagged for review.
+import { ExtractedField, ExtractionSource, LineItem, ReturnedItem } from '../types';
+
+export interface ExtractedBill {
+    customerName: string;
+    address: string;
+    invoiceNo: string;
+    billDate: string; // YYYY-MM-DD
+    items: LineItem[];
+    total?: number;
+    confidence: Partial<Record<ExtractedField, number>>; // 0-1 per field
+    rawText: string;
+    failed?: boolean; // Nothing could be read: no key, network or model error
+    source?: ExtractionSource; // Defaults to 'ai'
+}
+
+export interface ExtractedCrn {
+    crnNo: string;
+    originalInvoiceNo: string;
+    items: ReturnedItem[];
+}
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    parts: { text: string }[];
+}
+
+export interface ExtractionProvider {
+    // False when a call can't succeed right now (no key, no connection), so callers can skip straight to a fallback
+    isAvailable: () => boolean;
+    extractBill: (base64Image: string) => Promise<ExtractedBill>;
+    extractCrn: (base64Image: string) => Promise<ExtractedCrn>;
+}
+
+export interface ChatProvider {
+    // `context` is a plain-text snapshot of the day the reply should be grounded in
+    sendChat: (history: ChatTurn[], message: string, context: string) => Promise<string>;
+}
+
+export type AiProvider = ExtractionProvider & ChatProvider;
+
+export type AiProviderType = 'gemini' | 'mock';
+
+export interface AiConfig {
+    provider: AiProviderType;
+    model: string;
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderType, string> = {
+    gemini: 'Google Gemini',
+    mock: 'Offline mock (testing)',
+};
+
+// First model is the default
+export const AI_MODELS: Record<AiProviderType, string[]> = {
+    gemini: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    mock: ['fixtures'],
+};
+
+export const emptyExtraction = (failed = false): ExtractedBill => ({
+    customerName: '', address: '', invoiceNo: '', billDate: '', items: [], confidence: {}, rawText: '',
+    ...(failed ? { failed } : {}),
+});
+
+export const emptyCrn = (): ExtractedCrn => ({ crnNo: '', originalInvoiceNo: '', items: [] });
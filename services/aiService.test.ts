@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { extractBillDetails, saveAiConfig } from './aiService';
+import { readBillOffline } from './ocrService';
+
+vi.mock('./ocrService', () => ({
+    readBillOffline: vi.fn(async () => ({ customerName: 'read offline', source: 'offline' })),
+}));
+
+// First test image the mock's fixtures read as failed, or as read
+const findImage = async (failed: boolean) => {
+    for (let i = 0; ; i++) {
+        const image = `image-${i}`;
+        if (!!(await extractBillDetails(image)).failed === failed) return image;
+    }
+};
+
+afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+});
+
+describe('extractBillDetails with the mock provider', () => {
+    it('returns a failed read as it is, without the offline reader', async () => {
+        saveAiConfig({ provider: 'mock', model: 'fixtures' });
+        const image = await findImage(true);
+        const onOffline = vi.fn();
+
+        const result = await extractBillDetails(image, onOffline);
+
+        expect(result.failed).toBe(true);
+        expect(onOffline).not.toHaveBeenCalled();
+        expect(readBillOffline).not.toHaveBeenCalled();
+    });
+
+    it('returns a successful read from the fixtures', async () => {
+        saveAiConfig({ provider: 'mock', model: 'fixtures' });
+        const image = await findImage(false);
+
+        const result = await extractBillDetails(image);
+
+        expect(result.invoiceNo).toBeTruthy();
+        expect(readBillOffline).not.toHaveBeenCalled();
+    });
+});
+
+describe('extractBillDetails without a reachable AI', () => {
+    it('reads the bill on this device', async () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const onOffline = vi.fn();
+
+        const result = await extractBillDetails('image', onOffline);
+
+        expect(result.source).toBe('offline');
+        expect(onOffline).toHaveBeenCalledOnce();
+        expect(readBillOffline).toHaveBeenCalledWith('image');
+    });
+});
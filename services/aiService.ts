@@ -0,0 +1,64 @@
+import { AI_MODELS, AiConfig, AiProvider, ChatTurn, ExtractedBill, ExtractedCrn, emptyExtraction } from './aiProvider';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockAiProvider';
+import { readBillOffline } from './ocrService';
+
+const AI_CONFIG_KEY = 'grace_ai_config';
+
+const DEFAULT_CONFIG: AiConfig = { provider: 'gemini', model: AI_MODELS.gemini[0] };
+
+let provider: AiProvider | null = null;
+let providerConfig = ''; // Config the cached provider was built from
+
+export const createAiProvider = (config: AiConfig): AiProvider => {
+    switch (config.provider) {
+        case 'mock': return createMockProvider();
+        default: return createGeminiProvider(config.model);
+    }
+};
+
+export const getAiConfig = (): AiConfig => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(AI_CONFIG_KEY) || 'null');
+        return stored && AI_MODELS[stored.provider] ? stored : DEFAULT_CONFIG;
+    } catch {
+        return DEFAULT_CONFIG;
+    }
+};
+
+export const saveAiConfig = (config: AiConfig) => {
+    localStorage.setItem(AI_CONFIG_KEY, JSON.stringify(config));
+};
+
+// Rebuilt whenever the stored config changes, e.g. after saving settings or restoring a backup
+const currentProvider = () => {
+    const config = getAiConfig();
+    const key = JSON.stringify(config);
+    if (!provider || key !== providerConfig) {
+        provider = createAiProvider(config);
+        providerConfig = key;
+    }
+    return provider;
+};
+
+// Only asks the AI; for re-running offline reads once it's reachable again
+export const extractBillWithAi = async (base64Image: string): Promise<ExtractedBill> => {
+    const provider = currentProvider();
+    return provider.isAvailable() ? provider.extractBill(base64Image) : emptyExtraction(true);
+};
+
+// Falls back to on-device OCR when the AI is unreachable or couldn't read the bill.
+// `onOffline` fires as the fallback starts, so the UI can say what it's waiting for.
+// The mock's failed reads are scripted results, so they're returned as they are to keep it deterministic.
+export const extractBillDetails = async (base64Image: string, onOffline?: () => void): Promise<ExtractedBill> => {
+    const result = await extractBillWithAi(base64Image);
+    if (!result.failed || getAiConfig().provider === 'mock') return result;
+    onOffline?.();
+    return readBillOffline(base64Image);
+};
+
+export const extractCrnDetails = (base64Image: string): Promise<ExtractedCrn> =>
+    currentProvider().extractCrn(base64Image);
+
+export const sendChat = (history: ChatTurn[], message: string, context: string): Promise<string> =>
+    currentProvider().sendChat(history, message, context);
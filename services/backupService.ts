@@ -0,0 +1,176 @@
+import { BillData } from '../types';
+import { exportBillSnapshot, restoreBillSnapshot, RestoreMode, blobToDataUrl, dataUrlToBlob } from './storageService';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { getActor } from './sessionService';
+import { DeliveryManifest, readManifests, restoreManifests } from './manifestService';
+
+const BACKUP_FORMAT = 'grace-packing-backup';
+// Bump when the archive layout changes and teach readBackupFile to upgrade older archives
+const BACKUP_VERSION = 1;
+
+// Written by DailyPlanner
+const PLANNER_STORAGE_KEY = 'grace_planner_data';
+const CHAT_STORAGE_KEY = 'grace_chat_history';
+// Settings that make sense on another device. Session, device id and sync cursors stay behind,
+// and so does the sync config: it holds the backend key, and backup files get passed around.
+// The AI config is only a provider and model name; the API key is baked into the build.
+const SETTINGS_KEYS = ['grace_ai_config'];
+
+interface PlannerDay {
+    tasks: { id: string; text: string; completed: boolean }[];
+    note: string;
+}
+
+interface ChatEntry {
+    id: string;
+    timestamp: number;
+    [key: string]: unknown;
+}
+
+export interface BackupArchive {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: number;
+    createdBy: string; // Actor, see sessionService.getActor
+    schemaVersion: number; // Bill schema at backup time; older bills are migrated on restore
+    bills: BillData[]; // Every record including tombstones, without imageUrl
+    images: Record<string, string>; // imageId -> data URL
+    planner: Record<string, PlannerDay>; // Keyed by YYYY-MM-DD
+    chatHistory: ChatEntry[];
+    manifests?: Record<string, DeliveryManifest>; // Keyed by YYYY-MM-DD; absent in older backups
+    settings: Record<string, string>;
+}
+
+export interface BackupSummary {
+    createdAt: number;
+    createdBy: string;
+    bills: number; // Live bills only
+    images: number;
+    plannerDays: number;
+    chatMessages: number;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || '') ?? fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+export const createBackup = async (): Promise<BackupArchive> => {
+    const { records, images } = await exportBillSnapshot();
+    const encodedImages: Record<string, string> = {};
+    for (const [imageId, blob] of Object.entries(images)) {
+        encodedImages[imageId] = await blobToDataUrl(blob);
+    }
+
+    const settings: Record<string, string> = {};
+    SETTINGS_KEYS.forEach(key => {
+        const value = localStorage.getItem(key);
+        if (value !== null) settings[key] = value;
+    });
+
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: Date.now(),
+        createdBy: getActor(),
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        bills: records as BillData[],
+        images: encodedImages,
+        planner: readJson(PLANNER_STORAGE_KEY, {}),
+        chatHistory: readJson(CHAT_STORAGE_KEY, []),
+        manifests: readManifests(),
+        settings,
+    };
+};
+
+export const downloadBackup = async () => {
+    const archive = await createBackup();
+    const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Grace_Backup_${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Throws with a user-facing message if the file isn't a backup this version can restore
+export const readBackupFile = async (file: File): Promise<BackupArchive> => {
+    let archive: BackupArchive;
+    try {
+        archive = JSON.parse(await file.text());
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+    if (archive?.format !== BACKUP_FORMAT || !Array.isArray(archive.bills)) {
+        throw new Error("This file isn't a Grace backup.");
+    }
+    if (archive.version > BACKUP_VERSION) {
+        throw new Error("This backup was made by a newer version of the app. Update first, then restore.");
+    }
+    return archive;
+};
+
+export const summarizeBackup = (archive: BackupArchive): BackupSummary => ({
+    createdAt: archive.createdAt,
+    createdBy: archive.createdBy,
+    bills: archive.bills.filter(b => !b.deletedAt).length,
+    images: Object.keys(archive.images || {}).length,
+    plannerDays: Object.keys(archive.planner || {}).length,
+    chatMessages: (archive.chatHistory || []).length,
+});
+
+// Tasks are unioned by id; a day's note is kept locally unless it's empty
+const mergePlanner = (local: Record<string, PlannerDay>, restored: Record<string, PlannerDay>) => {
+    const merged = { ...local };
+    Object.entries(restored).forEach(([date, day]) => {
+        const mine = merged[date];
+        if (!mine) {
+            merged[date] = day;
+            return;
+        }
+        const ids = new Set((mine.tasks || []).map(t => t.id));
+        merged[date] = {
+            tasks: [...(mine.tasks || []), ...(day.tasks || []).filter(t => !ids.has(t.id))],
+            note: mine.note || day.note || '',
+        };
+    });
+    return merged;
+};
+
+const mergeChat = (local: ChatEntry[], restored: ChatEntry[]) => {
+    const ids = new Set(local.map(m => m.id));
+    return [...local, ...restored.filter(m => !ids.has(m.id))].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Returns the number of bills written
+export const restoreBackup = async (archive: BackupArchive, mode: RestoreMode): Promise<number> => {
+    const images: Record<string, Blob> = {};
+    Object.entries(archive.images || {}).forEach(([imageId, dataUrl]) => {
+        images[imageId] = dataUrlToBlob(dataUrl);
+    });
+    const restored = await restoreBillSnapshot({ records: archive.bills, images }, mode);
+
+    const planner = archive.planner || {};
+    const chatHistory = archive.chatHistory || [];
+    if (mode === 'replace') {
+        localStorage.setItem(PLANNER_STORAGE_KEY, JSON.stringify(planner));
+        localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(chatHistory));
+    } else {
+        localStorage.setItem(PLANNER_STORAGE_KEY, JSON.stringify(mergePlanner(readJson(PLANNER_STORAGE_KEY, {}), planner)));
+        localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(mergeChat(readJson(CHAT_STORAGE_KEY, []), chatHistory)));
+    }
+
+    restoreManifests(archive.manifests || {}, mode === 'replace');
+
+    // Merging never overrides a setting this device already has
+    Object.entries(archive.settings || {}).forEach(([key, value]) => {
+        if (!SETTINGS_KEYS.includes(key)) return;
+        if (mode === 'replace' || localStorage.getItem(key) === null) localStorage.setItem(key, value);
+    });
+
+    return restored;
+};
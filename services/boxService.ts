@@ -0,0 +1,69 @@
+import { BillBox, BillData, PackingStatus, StatusEvent } from '../types';
+import { getActor } from './sessionService';
+
+const setBoxStatus = (box: BillBox, status: PackingStatus, now: number): BillBox => {
+    if (box.status === status) return box;
+    const { packedAt, ...rest } = box;
+    return status === PackingStatus.PACKED ? { ...rest, status, packedAt: now } : { ...rest, status };
+};
+
+export const createBoxes = (count: number, status = PackingStatus.PENDING, now = Date.now()): BillBox[] =>
+    Array.from({ length: Math.max(0, count) }, (_, i) => setBoxStatus({ index: i + 1, status: PackingStatus.PENDING }, status, now));
+
+export const packedBoxCount = (bill: BillData) => bill.boxes.filter(b => b.status === PackingStatus.PACKED).length;
+
+export const boxesRemaining = (bill: BillData) => bill.boxes.length - packedBoxCount(bill);
+
+export const totalWeight = (bill: BillData) => bill.boxes.reduce((sum, b) => sum + (b.weight || 0), 0);
+
+// Sets the status and logs who changed it; unchanged statuses aren't logged
+export const stampStatus = (bill: BillData, status: PackingStatus, now = Date.now()): BillData => {
+    if (bill.status === status) return bill;
+    const event: StatusEvent = { status, at: now, by: getActor() };
+    return { ...bill, status, statusHistory: [...(bill.statusHistory || []), event] };
+};
+
+// While a bill is being packed, it is packed exactly when every box is, dated by the last box packed.
+// Bills without boxes keep whatever status was set by hand, and so do bills already out for dispatch.
+export const deriveBillStatus = (bill: BillData, now = Date.now()): BillData => {
+    if (bill.boxes.length === 0) return bill;
+    if (bill.status !== PackingStatus.PENDING && bill.status !== PackingStatus.PACKED) return bill;
+    if (boxesRemaining(bill) > 0) {
+        const { packedAt, ...rest } = bill;
+        return stampStatus(rest, PackingStatus.PENDING, now);
+    }
+    const packedAt = Math.max(...bill.boxes.map(b => b.packedAt || 0)) || bill.packedAt || now;
+    return stampStatus({ ...bill, packedAt }, PackingStatus.PACKED, now);
+};
+
+// Adds or drops boxes at the end; the boxes that remain keep their status, weight and note
+export const resizeBoxes = (bill: BillData, count: number, now = Date.now()): BillData => {
+    const boxes = bill.boxes.slice(0, Math.max(0, count));
+    for (let i = boxes.length; i < count; i++) boxes.push({ index: i + 1, status: PackingStatus.PENDING });
+    return deriveBillStatus({ ...bill, boxes, updatedAt: now }, now);
+};
+
+export const updateBox = (bill: BillData, index: number, changes: Partial<Omit<BillBox, 'index'>>, now = Date.now()): BillData => {
+    const boxes = bill.boxes.map(b => {
+        if (b.index !== index) return b;
+        const { status, ...rest } = changes;
+        return setBoxStatus({ ...b, ...rest }, status ?? b.status, now);
+    });
+    return deriveBillStatus({ ...bill, boxes, updatedAt: now }, now);
+};
+
+export const markBoxPacked = (bill: BillData, index: number, now = Date.now()): BillData =>
+    updateBox(bill, index, { status: PackingStatus.PACKED }, now);
+
+// Setting PENDING or PACKED by hand applies it to every box. Use statusService.transitionBill
+// rather than calling this directly, so the move is validated.
+export const setBillStatus = (bill: BillData, status: PackingStatus.PENDING | PackingStatus.PACKED, now = Date.now()): BillData => {
+    const stamped = stampStatus(bill, status, now);
+    if (bill.boxes.length > 0) {
+        return deriveBillStatus({ ...stamped, boxes: bill.boxes.map(b => setBoxStatus(b, status, now)), updatedAt: now }, now);
+    }
+    const { packedAt, ...rest } = stamped;
+    return status === PackingStatus.PACKED
+        ? { ...rest, packedAt: bill.packedAt ?? now, updatedAt: now }
+        : { ...rest, updatedAt: now };
+};
@@ -0,0 +1,61 @@
+import { BillData, CreditReturnNote, CrnStatus, ImageAttachment } from '../types';
+import { ExtractedCrn } from './aiProvider';
+import { getActor } from './sessionService';
+
+export const CRN_STATUS_LABELS: Record<CrnStatus, string> = {
+    [CrnStatus.PENDING]: 'Pending',
+    [CrnStatus.PROCESSED]: 'Processed',
+};
+
+const emptyCrn = (): CreditReturnNote => ({ crnNo: '', originalInvoiceNo: '', items: [], status: CrnStatus.PENDING });
+
+// Bills flagged as CRN before details were recorded count as pending with nothing filled in
+export const crnOf = (bill: BillData): CreditReturnNote => bill.crn ?? emptyCrn();
+
+export const crnStatusOf = (bill: BillData) => crnOf(bill).status;
+
+export const updateCrn = (bill: BillData, changes: Partial<CreditReturnNote>, now = Date.now()): BillData =>
+    ({ ...bill, hasCRN: true, crn: { ...crnOf(bill), ...changes }, updatedAt: now });
+
+export const setCrnStatus = (bill: BillData, status: CrnStatus, now = Date.now()): BillData => {
+    const { processedAt, processedBy, ...rest } = crnOf(bill);
+    const crn = status === CrnStatus.PROCESSED ? { ...rest, status, processedAt: now, processedBy: getActor() } : { ...rest, status };
+    return { ...bill, hasCRN: true, crn, updatedAt: now };
+};
+
+const normalizeInvoice = (invoiceNo: string) => invoiceNo.trim().toLowerCase().replace(/\s+/g, '');
+
+// The bill a CRN refers to, matched on invoice number
+export const findOriginalBill = (bills: BillData[], crnBill: BillData, invoiceNo: string): BillData | undefined => {
+    const wanted = normalizeInvoice(invoiceNo);
+    if (!wanted) return undefined;
+    return bills.find(b => b.id !== crnBill.id && !b.deletedAt && normalizeInvoice(b.invoiceNo) === wanted);
+};
+
+// Points the CRN at an invoice, linking the bill when it's in the app
+export const linkOriginalInvoice = (bill: BillData, bills: BillData[], invoiceNo: string, now = Date.now()): BillData => {
+    const original = findOriginalBill(bills, bill, invoiceNo);
+    const { originalBillId, ...rest } = crnOf(bill);
+    return updateCrn({ ...bill, crn: original ? { ...rest, originalBillId: original.id } : rest }, { originalInvoiceNo: invoiceNo }, now);
+};
+
+// Attaches a scanned CRN document; extracted values only fill what the packer hasn't typed yet
+export const applyCrnScan = (bill: BillData, bills: BillData[], document: ImageAttachment, scan: ExtractedCrn, now = Date.now()): BillData => {
+    const crn = crnOf(bill);
+    let next = updateCrn(bill, {
+        document,
+        crnNo: crn.crnNo || scan.crnNo,
+        items: crn.items.length > 0 ? crn.items : scan.items,
+    }, now);
+    if (!crn.originalInvoiceNo && scan.originalInvoiceNo) next = linkOriginalInvoice(next, bills, scan.originalInvoiceNo, now);
+    return next;
+};
+
+export const returnedQuantity = (crn: CreditReturnNote) => crn.items.reduce((sum, i) => sum + (i.quantity || 0), 0);
+
+// e.g. "2 × Soap, 1 × Oil"
+export const formatReturnedItems = (crn: CreditReturnNote) =>
+    crn.items.map(i => `${i.quantity} × ${i.product}`).join(', ');
+
+export const crnQueue = (bills: BillData[], status: CrnStatus) =>
+    bills.filter(b => b.hasCRN && !b.deletedAt && crnStatusOf(b) === status);
@@ -0,0 +1,7 @@
+// Entry dates, manifest dates and the date picker are all local calendar days (YYYY-MM-DD).
+// toISOString alone would give the UTC day, which is yesterday's before 05:30 in IST.
+export const toLocalDateString = (at: number | Date = Date.now()) => {
+    const time = typeof at === 'number' ? at : at.getTime();
+    const offset = new Date(time).getTimezoneOffset();
+    return new Date(time - offset * 60 * 1000).toISOString().split('T')[0];
+};
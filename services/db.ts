@@ -0,0 +1,93 @@
+// Thin promise wrapper around IndexedDB. All app data lives in one database;
+// each feature owns an object store declared in `upgrade` below.
+
+const DB_NAME = 'grace_packing';
+const DB_VERSION = 3;
+
+export const BILLS_STORE = 'bills';
+export const IMAGES_STORE = 'images';
+export const OUTBOX_STORE = 'outbox';
+export const SYNC_BASE_STORE = 'sync_base';
+export const CONFLICTS_STORE = 'conflicts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const bills = db.createObjectStore(BILLS_STORE, { keyPath: 'id' });
+        bills.createIndex('entryDate', 'entryDate');
+        bills.createIndex('status', 'status');
+        bills.createIndex('invoiceNo', 'invoiceNo');
+        // Images are Blobs keyed by the bill's imageId (out-of-line keys)
+        db.createObjectStore(IMAGES_STORE);
+    }
+    if (oldVersion < 2) {
+        // Pending cloud writes, replayed in `seq` order
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+    }
+    if (oldVersion < 3) {
+        // Last version of each bill known to match the server (merge ancestor)
+        db.createObjectStore(SYNC_BASE_STORE, { keyPath: 'id' });
+        // Unresolved field conflicts, keyed `${billId}:${field}`
+        db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id' });
+    }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+export const idbGetAll = async <T>(storeName: string): Promise<T[]> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(storeName).objectStore(storeName).getAll());
+};
+
+export const idbGet = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(storeName).objectStore(storeName).get(key));
+};
+
+// Runs several writes atomically. `fn` must only queue requests synchronously.
+export const idbWrite = async (storeNames: string | string[], fn: (tx: IDBTransaction) => void): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(storeNames, 'readwrite');
+    const done = transactionDone(tx);
+    fn(tx);
+    return done;
+};
+
+export const idbPut = (storeName: string, value: unknown, key?: IDBValidKey) =>
+    idbWrite(storeName, tx => { tx.objectStore(storeName).put(value, key); });
+
+export const idbDelete = (storeName: string, key: IDBValidKey) =>
+    idbWrite(storeName, tx => { tx.objectStore(storeName).delete(key); });
+
+export const idbClear = (storeName: string) =>
+    idbWrite(storeName, tx => { tx.objectStore(storeName).clear(); });
+
+export const isQuotaError = (e: unknown) =>
+    e instanceof DOMException && e.name === 'QuotaExceededError';
@@ -0,0 +1,193 @@
+import * as XLSX from 'xlsx';
+import { BillData, CrnStatus, PackingStatus } from '../types';
+import { packedBoxCount, totalWeight } from './boxService';
+import { isPacked, lastStatusEvent } from './statusService';
+import { CRN_STATUS_LABELS, crnStatusOf, formatReturnedItems } from './crnService';
+import { formatLineItems } from './itemService';
+import { needsReview } from './reviewService';
+
+export interface ExportColumn {
+    key: string;
+    label: string;
+    value: (bill: BillData) => string | number;
+}
+
+const yesNo = (flag: boolean) => flag ? 'Yes' : 'No';
+
+const stageTime = (bill: BillData, status: PackingStatus) => {
+    const event = lastStatusEvent(bill, status);
+    return event ? new Date(event.at).toLocaleString() : '';
+};
+
+// What was captured at the door, e.g. "Signature + Photo"
+const proofSummary = (bill: BillData) => {
+    const pod = bill.proofOfDelivery;
+    return pod ? [pod.signature && 'Signature', pod.photo && 'Photo'].filter(Boolean).join(' + ') : '';
+};
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+    { key: 'entryDate', label: 'Entry Date', value: b => b.entryDate },
+    { key: 'billDate', label: 'Bill Date', value: b => b.billDate },
+    { key: 'customerName', label: 'Customer Name', value: b => b.customerName },
+    { key: 'address', label: 'Address', value: b => b.address },
+    { key: 'description', label: 'Group Name', value: b => b.description },
+    { key: 'colorTheme', label: 'Color Theme', value: b => b.colorTheme || 'Auto' },
+    { key: 'invoiceNo', label: 'Invoice No', value: b => b.invoiceNo },
+    { key: 'status', label: 'Status', value: b => b.status },
+    { key: 'packedAt', label: 'Packed At', value: b => b.packedAt ? new Date(b.packedAt).toLocaleString() : '' },
+    { key: 'dispatchedAt', label: 'Dispatched At', value: b => stageTime(b, PackingStatus.DISPATCHED) },
+    { key: 'deliveredAt', label: 'Delivered At', value: b => stageTime(b, PackingStatus.DELIVERED) },
+    { key: 'receivedBy', label: 'Received By', value: b => b.proofOfDelivery?.receiverName || '' },
+    { key: 'deliveryProof', label: 'Delivery Proof', value: b => proofSummary(b) },
+    { key: 'lineItems', label: 'Items', value: b => formatLineItems(b) },
+    { key: 'billTotal', label: 'Bill Total', value: b => b.billTotal ?? '' },
+    { key: 'boxes', label: 'Boxes', value: b => b.boxes.length },
+    { key: 'boxesPacked', label: 'Boxes Packed', value: b => packedBoxCount(b) },
+    { key: 'weight', label: 'Weight (kg)', value: b => totalWeight(b) || '' },
+    { key: 'isDelivery', label: 'Delivery', value: b => yesNo(b.isDelivery) },
+    { key: 'hasCRN', label: 'CRN', value: b => yesNo(b.hasCRN) },
+    { key: 'crnNo', label: 'CRN No', value: b => b.crn?.crnNo || '' },
+    { key: 'crnStatus', label: 'CRN Status', value: b => b.hasCRN ? CRN_STATUS_LABELS[crnStatusOf(b)] : '' },
+    { key: 'crnInvoice', label: 'CRN Against Invoice', value: b => b.crn?.originalInvoiceNo || '' },
+    { key: 'returnedItems', label: 'Returned Items', value: b => b.crn ? formatReturnedItems(b.crn) : '' },
+    { key: 'isAdditionalBill', label: 'Additional', value: b => yesNo(b.isAdditionalBill) },
+    { key: 'isEditedBill', label: 'Edited', value: b => yesNo(b.isEditedBill) },
+    { key: 'needsReview', label: 'Needs Review', value: b => yesNo(needsReview(b)) },
+];
+
+export type ExportFlag = 'isDelivery' | 'hasCRN' | 'isEditedBill' | 'isAdditionalBill';
+
+export const EXPORT_FLAG_LABELS: Record<ExportFlag, string> = {
+    isDelivery: 'Delivery',
+    hasCRN: 'CRN',
+    isEditedBill: 'Edited',
+    isAdditionalBill: 'Additional',
+};
+
+export const NO_GROUP_LABEL = 'No Group';
+
+export interface ExportOptions {
+    from: string; // Entry date range, inclusive (YYYY-MM-DD); empty means open-ended
+    to: string;
+    statuses: PackingStatus[];
+    flags: ExportFlag[]; // Bills must have every listed flag
+    groups: string[]; // Group names to include; empty means all
+    columns: string[]; // ExportColumn keys, in EXPORT_COLUMNS order
+    splitBy: 'none' | 'day' | 'group';
+    includeSummary: boolean;
+    includeBoxes: boolean; // Extra sheet with one row per box
+    format: 'xlsx' | 'csv';
+}
+
+const groupOf = (bill: BillData) => bill.description.trim() || NO_GROUP_LABEL;
+
+export const filterBillsForExport = (bills: BillData[], options: ExportOptions) =>
+    bills
+        .filter(b =>
+            (!options.from || b.entryDate >= options.from) &&
+            (!options.to || b.entryDate <= options.to) &&
+            options.statuses.includes(b.status) &&
+            options.flags.every(f => b[f]) &&
+            (options.groups.length === 0 || options.groups.includes(groupOf(b))))
+        .sort((a, b) => a.entryDate.localeCompare(b.entryDate) || a.createdAt - b.createdAt);
+
+const partition = (bills: BillData[], keyOf: (bill: BillData) => string) => {
+    const parts = new Map<string, BillData[]>();
+    bills.forEach(b => {
+        const key = keyOf(b);
+        if (!parts.has(key)) parts.set(key, []);
+        parts.get(key)!.push(b);
+    });
+    return parts;
+};
+
+const toRows = (bills: BillData[], columns: ExportColumn[]) =>
+    bills.map(b => Object.fromEntries(columns.map(c => [c.label, c.value(b)])));
+
+const summaryRow = (label: string, bills: BillData[]) => ({
+    '': label,
+    'Bills': bills.length,
+    'Boxes': bills.reduce((sum, b) => sum + b.boxes.length, 0),
+    'Packed': bills.filter(isPacked).length,
+    'Pending': bills.filter(b => b.status === PackingStatus.PENDING).length,
+    'Dispatched': bills.filter(b => b.status === PackingStatus.DISPATCHED).length,
+    'Delivered': bills.filter(b => b.status === PackingStatus.DELIVERED).length,
+    'Returned': bills.filter(b => b.status === PackingStatus.RETURNED).length,
+    'CRN': bills.filter(b => b.hasCRN).length,
+    'CRN Pending': bills.filter(b => b.hasCRN && crnStatusOf(b) === CrnStatus.PENDING).length,
+});
+
+const boxRows = (bills: BillData[]) =>
+    bills.flatMap(b => b.boxes.map(box => ({
+        'Entry Date': b.entryDate,
+        'Invoice No': b.invoiceNo,
+        'Customer Name': b.customerName,
+        'Group Name': b.description,
+        'Box': `${box.index} of ${b.boxes.length}`,
+        'Status': box.status,
+        'Weight (kg)': box.weight ?? '',
+        'Note': box.note || '',
+        'Packed At': box.packedAt ? new Date(box.packedAt).toLocaleString() : '',
+    })));
+
+// Excel sheet names: max 31 chars, no []:*?/\ and unique within the workbook
+const sheetName = (name: string, used: Set<string>) => {
+    const base = (name.replace(/[\[\]:*?\/\\]/g, '-').trim() || 'Sheet').slice(0, 31);
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        const suffix = ` (${n})`;
+        candidate = base.slice(0, 31 - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+};
+
+// Writes the filtered bills and returns how many were exported
+export const exportBills = (bills: BillData[], options: ExportOptions): number => {
+    const selected = filterBillsForExport(bills, options);
+    const columns = EXPORT_COLUMNS.filter(c => options.columns.includes(c.key));
+    const range = options.from === options.to ? options.from || 'All' : `${options.from || 'Start'}_to_${options.to || 'Today'}`;
+    const fileBase = `Grace_Packing_${range}`;
+
+    if (options.format === 'csv') {
+        const ws = XLSX.utils.json_to_sheet(toRows(selected, columns), { header: columns.map(c => c.label) });
+        const blob = new Blob([XLSX.utils.sheet_to_csv(ws)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${fileBase}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+        return selected.length;
+    }
+
+    const wb = XLSX.utils.book_new();
+    const used = new Set<string>();
+    const byDay = partition(selected, b => b.entryDate);
+    const byGroup = partition(selected, groupOf);
+
+    if (options.includeSummary) {
+        // Break totals down the same way as the sheets; per day when there's a single sheet
+        const breakdown = options.splitBy === 'group' ? byGroup : byDay;
+        const rows = [
+            ...Array.from(breakdown.entries()).map(([key, part]) => summaryRow(key, part)),
+            summaryRow('Total', selected),
+        ];
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), sheetName('Summary', used));
+    }
+
+    const sheets = options.splitBy === 'day' ? byDay
+        : options.splitBy === 'group' ? byGroup
+        : new Map([['Grace_Packing_Data', selected]]);
+    sheets.forEach((part, key) => {
+        const ws = XLSX.utils.json_to_sheet(toRows(part, columns), { header: columns.map(c => c.label) });
+        XLSX.utils.book_append_sheet(wb, ws, sheetName(key, used));
+    });
+
+    if (options.includeBoxes) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(boxRows(selected)), sheetName('Boxes', used));
+    }
+
+    XLSX.writeFile(wb, `${fileBase}.xlsx`);
+    return selected.length;
+};
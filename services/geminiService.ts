@@ -1,20 +1,113 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { ExtractedField, LineItem } from "../types";
+import { AiProvider, ExtractedBill, ExtractedCrn, emptyCrn, emptyExtraction } from "./aiProvider";
 
-const getKey = () =>
+export const getGeminiKey = () =>
   process.env.API_KEY || process.env.GEMINI_API_KEY || "";
 
-export const extractBillDetails = async (base64Image: string) => {
-  const apiKey = getKey();
-  if (!apiKey) {
-    return { customerName: "", address: "", invoiceNo: "", billDate: "" };
-  }
+const EXTRACTED_FIELDS: ExtractedField[] = ["customerName", "address", "invoiceNo", "billDate", "lineItems"];
 
-  try {
+const BILL_PROMPT = `
+Extract shop/customer name, full address, invoice number, and bill date.
+Return date as YYYY-MM-DD.
+Also list every product line with its quantity, unit (pcs, box, kg...) and line amount, and the bill's grand total.
+Quantities and amounts must be plain numbers.
+If any value missing return empty string.
+For customerName, address, invoiceNo, billDate and lineItems give a confidence from 0 to 1 that you read it correctly;
+use a low value for blurry, handwritten, cut-off or guessed text.
+In rawText return all the text you can read on the bill, line by line.
+`;
+
+const BILL_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    customerName: { type: Type.STRING },
+    address: { type: Type.STRING },
+    invoiceNo: { type: Type.STRING },
+    billDate: { type: Type.STRING },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          product: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unit: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+        },
+      },
+    },
+    total: { type: Type.NUMBER },
+    confidence: {
+      type: Type.OBJECT,
+      properties: {
+        customerName: { type: Type.NUMBER },
+        address: { type: Type.NUMBER },
+        invoiceNo: { type: Type.NUMBER },
+        billDate: { type: Type.NUMBER },
+        lineItems: { type: Type.NUMBER },
+      },
+    },
+    rawText: { type: Type.STRING },
+  },
+};
+
+const CRN_PROMPT = `
+This is a credit return note (CRN) for goods returned by a customer.
+Extract the CRN number, the original invoice number it refers to, and every returned item with its quantity.
+Quantity must be a number. If any value missing return empty string.
+`;
+
+const CRN_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    crnNo: { type: Type.STRING },
+    originalInvoiceNo: { type: Type.STRING },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          product: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+        },
+      },
+    },
+  },
+};
+
+// The model sometimes returns numbers as strings ("1,250.00") or leaves out fields
+const toNumber = (value: unknown) => Number(String(value ?? "").replace(/[^\d.-]/g, "")) || 0;
+
+// Clamped to 0-1; models occasionally answer in percent
+const normalizeConfidence = (confidence: any): Partial<Record<ExtractedField, number>> => {
+  const result: Partial<Record<ExtractedField, number>> = {};
+  EXTRACTED_FIELDS.forEach(field => {
+    const value = Number(confidence?.[field]);
+    if (Number.isFinite(value)) result[field] = Math.min(1, Math.max(0, value > 1 ? value / 100 : value));
+  });
+  return result;
+};
+
+const normalizeItems = (items: any): LineItem[] =>
+  (Array.isArray(items) ? items : [])
+    .map(i => ({
+      product: String(i?.product || "").trim(),
+      quantity: toNumber(i?.quantity),
+      unit: String(i?.unit || "").trim(),
+      amount: toNumber(i?.amount),
+    }))
+    .filter(i => i.product);
+
+export const createGeminiProvider = (model: string, apiKey = getGeminiKey()): AiProvider => {
+  // Sends the image with a prompt and parses the JSON reply; throws on a missing key or bad output
+  const readImage = async (base64Image: string, prompt: string, responseSchema: object) => {
+    if (!apiKey) throw new Error("missing api key");
     const ai = new GoogleGenAI({ apiKey });
     const cleanBase64 = base64Image.split(",")[1] || base64Image;
 
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model,
       contents: {
         parts: [
           {
@@ -23,61 +116,80 @@ export const extractBillDetails = async (base64Image: string) => {
               data: cleanBase64,
             },
           },
-          {
-            text: `
-Extract shop/customer name, full address, invoice number, and bill date.
-Return date as YYYY-MM-DD.
-If any value missing return empty string.
-`,
-          },
+          { text: prompt },
         ],
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            customerName: { type: Type.STRING },
-            address: { type: Type.STRING },
-            invoiceNo: { type: Type.STRING },
-            billDate: { type: Type.STRING },
-          },
-        },
+        responseSchema,
       },
     });
 
     let text = response.text;
-    if (text) {
-      text = text.replace(/^```json/, "").replace(/```$/, "");
-      return JSON.parse(text);
-    }
-
-    throw new Error("missing output");
-  } catch (err) {
-    console.error("gemini error", err);
-    return { customerName: "", address: "", invoiceNo: "", billDate: "" };
-  }
-};
+    if (!text) throw new Error("missing output");
+    text = text.replace(/^```json/, "").replace(/```$/, "");
+    return JSON.parse(text);
+  };
 
-export const sendGeminiChat = async (history, newMessage, context) => {
-  const apiKey = getKey();
-  if (!apiKey) return "Missing API Key.";
+  return {
+    isAvailable: () => !!apiKey && navigator.onLine,
 
-  try {
-    const ai = new GoogleGenAI({ apiKey });
+    extractBill: async (base64Image: string): Promise<ExtractedBill> => {
+      try {
+        const parsed = await readImage(base64Image, BILL_PROMPT, BILL_SCHEMA);
+        return {
+          ...emptyExtraction(),
+          customerName: String(parsed.customerName || ""),
+          address: String(parsed.address || ""),
+          invoiceNo: String(parsed.invoiceNo || ""),
+          billDate: String(parsed.billDate || ""),
+          items: normalizeItems(parsed.items),
+          total: toNumber(parsed.total) || undefined,
+          confidence: normalizeConfidence(parsed.confidence),
+          rawText: String(parsed.rawText || ""),
+        };
+      } catch (err) {
+        console.error("gemini error", err);
+        return emptyExtraction(true);
+      }
+    },
 
-    const chat = ai.chats.create({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: `You are Grace AI. Keep replies short and helpful. Context: ${context}`,
-      },
-      history,
-    });
+    extractCrn: async (base64Image: string): Promise<ExtractedCrn> => {
+      try {
+        const parsed = await readImage(base64Image, CRN_PROMPT, CRN_SCHEMA);
+        return {
+          crnNo: String(parsed.crnNo || ""),
+          originalInvoiceNo: String(parsed.originalInvoiceNo || ""),
+          items: (Array.isArray(parsed.items) ? parsed.items : [])
+            .map((i: any) => ({ product: String(i?.product || "").trim(), quantity: toNumber(i?.quantity) }))
+            .filter((i: { product: string }) => i.product),
+        };
+      } catch (err) {
+        console.error("gemini crn error", err);
+        return emptyCrn();
+      }
+    },
+
+    sendChat: async (history, message, context) => {
+      if (!apiKey) return "Missing API Key.";
+
+      try {
+        const ai = new GoogleGenAI({ apiKey });
+
+        const chat = ai.chats.create({
+          model,
+          config: {
+            systemInstruction: `You are Grace AI. Keep replies short and helpful. Context: ${context}`,
+          },
+          history,
+        });
 
-    const result = await chat.sendMessage({ message: newMessage });
-    return result.text || "no reply";
-  } catch (e) {
-    console.error(e);
-    return "chat offline rn";
-  }
+        const result = await chat.sendMessage({ message });
+        return result.text || "no reply";
+      } catch (e) {
+        console.error(e);
+        return "chat offline rn";
+      }
+    },
+  };
 };
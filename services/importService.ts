@@ -0,0 +1,187 @@
+import * as XLSX from 'xlsx';
+import { BillData, PackingStatus } from '../types';
+import { FIELD_LABELS } from './mergeService';
+import { STATUS_LABELS, isDispatchStatus } from './statusService';
+
+// Bill fields a spreadsheet column can be mapped to
+export const IMPORT_FIELDS = [
+    'invoiceNo', 'customerName', 'address', 'billDate', 'boxCount', 'description',
+    'status', 'isDelivery', 'hasCRN', 'isEditedBill', 'isAdditionalBill',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+    invoiceNo: FIELD_LABELS.invoiceNo,
+    customerName: FIELD_LABELS.customerName,
+    address: FIELD_LABELS.address,
+    billDate: FIELD_LABELS.billDate,
+    boxCount: FIELD_LABELS.boxes,
+    description: FIELD_LABELS.description,
+    status: FIELD_LABELS.status,
+    isDelivery: FIELD_LABELS.isDelivery,
+    hasCRN: FIELD_LABELS.hasCRN,
+    isEditedBill: FIELD_LABELS.isEditedBill,
+    isAdditionalBill: FIELD_LABELS.isAdditionalBill,
+};
+
+// Header spellings seen in office registers, plus the ones our own Excel export writes
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+    invoiceNo: ['invoice no', 'invoice', 'invoice number', 'inv no', 'bill no', 'bill number'],
+    customerName: ['customer name', 'customer', 'party', 'party name', 'name', 'buyer'],
+    address: ['address', 'delivery address', 'location'],
+    billDate: ['bill date', 'invoice date', 'date'],
+    boxCount: ['boxes', 'box count', 'no of boxes', 'cartons', 'packages'],
+    description: ['group name', 'group', 'shop', 'shop name'],
+    status: ['status', 'packing status'],
+    isDelivery: ['delivery', 'is delivery'],
+    hasCRN: ['crn', 'has crn'],
+    isEditedBill: ['edited', 'edited bill'],
+    isAdditionalBill: ['additional', 'add-on', 'additional bill'],
+};
+
+const BOOLEAN_FIELDS = ['isDelivery', 'hasCRN', 'isEditedBill', 'isAdditionalBill'] as const;
+
+// Column index per field; unmapped fields are absent
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedSheet {
+    headers: string[];
+    rows: string[][];
+}
+
+// Fields for one bill to create; everything else gets createBill's defaults. `boxCount` becomes that many boxes.
+export type ImportDraft = Partial<Pick<BillData, Exclude<ImportField, 'boxCount'>>> & { boxCount?: number };
+
+export interface ImportRow {
+    rowNumber: number; // 1-based row in the sheet, header included
+    draft: ImportDraft;
+    errors: string[];
+    duplicate?: 'existing' | 'file'; // Invoice No already used by a saved bill, or earlier in this file
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const normalizeInvoiceNo = (invoiceNo?: string) => (invoiceNo || '').trim().toLowerCase();
+
+// Reads the first sheet of an .xlsx/.xls/.csv file as text cells; the first row is the header
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: false });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error("The file has no sheets.");
+
+    // Real date cells come out as YYYY-MM-DD rather than the sheet's display format
+    const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, blankrows: false, defval: '', dateNF: 'yyyy-mm-dd' });
+    const [headerRow = [], ...rows] = table;
+    return {
+        headers: headerRow.map(h => String(h ?? '').trim()),
+        rows: rows.map(r => r.map(c => String(c ?? '').trim())),
+    };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const normalized = headers.map(normalizeHeader);
+    IMPORT_FIELDS.forEach(field => {
+        const index = normalized.findIndex((h, i) =>
+            HEADER_ALIASES[field].includes(h) && !Object.values(mapping).includes(i));
+        if (index >= 0) mapping[field] = index;
+    });
+    return mapping;
+};
+
+const parseBoolean = (value: string): boolean | null => {
+    const v = value.toLowerCase();
+    if (['yes', 'y', 'true', '1', 'x'].includes(v)) return true;
+    if (['no', 'n', 'false', '0', ''].includes(v)) return false;
+    return null;
+};
+
+const parseStatus = (value: string): PackingStatus | null => {
+    const v = value.toLowerCase();
+    if (!v || v === 'pending') return PackingStatus.PENDING;
+    if (v === 'packed' || v === 'done') return PackingStatus.PACKED;
+    // Dispatch stages as our own export writes them, or by their display label
+    const stage = Object.values(PackingStatus).find(s => s.toLowerCase() === v || STATUS_LABELS[s].toLowerCase() === v);
+    return stage ?? null;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    if (year < 100) year += 2000;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Rejects 31/02 and the like, which Date would roll over into the next month
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+};
+
+// YYYY-MM-DD as our export writes it, or day-first as registers here do: 12/06/2024, 12-06-24, 12.06.2024.
+// Returns '' for a blank cell and null for one that isn't a date.
+const parseBillDate = (value: string): string | null => {
+    if (!value) return '';
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    const dayFirst = value.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})$/);
+    if (dayFirst) return toIsoDate(Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1]));
+    return null;
+};
+
+// Validates mapped rows and flags Invoice Nos that match a saved bill or an earlier row
+export const buildImportRows = (sheet: ParsedSheet, mapping: ColumnMapping, existingBills: BillData[]): ImportRow[] => {
+    const existing = new Set(existingBills.map(b => normalizeInvoiceNo(b.invoiceNo)).filter(Boolean));
+    const seen = new Set<string>();
+
+    return sheet.rows.map((cells, i) => {
+        const draft: ImportDraft = {};
+        const errors: string[] = [];
+        const cell = (field: ImportField) => mapping[field] === undefined ? undefined : cells[mapping[field]!] ?? '';
+
+        (['invoiceNo', 'customerName', 'address', 'description'] as const).forEach(field => {
+            const value = cell(field);
+            if (value !== undefined) draft[field] = value;
+        });
+
+        const billDate = cell('billDate');
+        if (billDate !== undefined) {
+            const parsed = parseBillDate(billDate);
+            if (parsed !== null) draft.billDate = parsed;
+            else errors.push(`Bill Date "${billDate}" should be a date like 25/06/2024`);
+        }
+
+        const boxes = cell('boxCount');
+        if (boxes !== undefined && boxes !== '') {
+            const n = Number(boxes);
+            if (Number.isInteger(n) && n >= 0) draft.boxCount = n;
+            else errors.push(`Boxes "${boxes}" is not a whole number`);
+        }
+
+        const status = cell('status');
+        if (status !== undefined) {
+            const parsed = parseStatus(status);
+            if (parsed) draft.status = parsed;
+            else errors.push(`Status "${status}" should be Pending, Packed or a dispatch stage`);
+        }
+
+        BOOLEAN_FIELDS.forEach(field => {
+            const value = cell(field);
+            if (value === undefined) return;
+            const parsed = parseBoolean(value);
+            if (parsed === null) errors.push(`${IMPORT_FIELD_LABELS[field]} "${value}" should be Yes or No`);
+            else draft[field] = parsed;
+        });
+
+        if (draft.status && isDispatchStatus(draft.status) && !draft.isDelivery) {
+            errors.push(`Status "${STATUS_LABELS[draft.status]}" is only for delivery bills`);
+        }
+
+        if (!draft.invoiceNo && !draft.customerName) errors.push('Needs an Invoice No or Customer Name');
+
+        const row: ImportRow = { rowNumber: i + 2, draft, errors };
+        const key = normalizeInvoiceNo(draft.invoiceNo);
+        if (key) {
+            if (existing.has(key)) row.duplicate = 'existing';
+            else if (seen.has(key)) row.duplicate = 'file';
+            seen.add(key);
+        }
+        return row;
+    });
+};
@@ -0,0 +1,28 @@
+import { BillData, LineItem } from '../types';
+
+export const pickedItemCount = (bill: BillData) => bill.lineItems.filter(i => i.picked).length;
+
+export const togglePicked = (bill: BillData, index: number, now = Date.now()): BillData => ({
+    ...bill,
+    lineItems: bill.lineItems.map((item, i) => i === index ? { ...item, picked: !item.picked } : item),
+    updatedAt: now,
+});
+
+export const setAllPicked = (bill: BillData, picked: boolean, now = Date.now()): BillData => ({
+    ...bill,
+    lineItems: bill.lineItems.map(item => ({ ...item, picked })),
+    updatedAt: now,
+});
+
+// Sum of the line amounts; compare with billTotal to spot lines the extraction missed
+export const itemsTotal = (bill: BillData) => bill.lineItems.reduce((sum, i) => sum + (i.amount || 0), 0);
+
+export const formatAmount = (amount: number) =>
+    `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+// e.g. "12 pcs", "3"
+export const formatQuantity = (item: LineItem) => [item.quantity || '', item.unit].filter(Boolean).join(' ');
+
+// e.g. "12 pcs Soap; 3 box Oil"
+export const formatLineItems = (bill: BillData) =>
+    bill.lineItems.map(i => `${formatQuantity(i)} ${i.product}`.trim()).join('; ');
@@ -0,0 +1,147 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { BillData } from '../types';
+import { getThemeStyles } from './storageService';
+
+// --- BOX CODES ---
+
+// QR payload for one box: `GB1:<billId>:<box>` with a 1-based box number. The prefix versions the format.
+const BOX_CODE_PREFIX = 'GB1';
+
+export interface BoxCode {
+    billId: string;
+    box: number; // 1-based
+}
+
+export const encodeBoxCode = (billId: string, box: number) => `${BOX_CODE_PREFIX}:${billId}:${box}`;
+
+// Returns null for anything that isn't one of our labels
+export const parseBoxCode = (text: string): BoxCode | null => {
+    const [prefix, billId, box] = text.trim().split(':');
+    const n = Number(box);
+    if (prefix !== BOX_CODE_PREFIX || !billId || !Number.isInteger(n) || n < 1) return null;
+    return { billId, box: n };
+};
+
+// --- LABEL SHEETS ---
+
+export type LabelFormat = 'a4-8' | 'a4-14' | 'thermal-4x6';
+
+interface LabelLayout {
+    name: string;
+    page: [number, number]; // mm
+    label: [number, number]; // mm
+    columns: number;
+    rows: number;
+    origin: [number, number]; // Top-left of the first label
+    gap: [number, number]; // Horizontal and vertical pitch minus label size
+}
+
+export const LABEL_LAYOUTS: Record<LabelFormat, LabelLayout> = {
+    // Avery L7165 / J8165: 2 x 4, 99.1 x 67.7 mm
+    'a4-8': { name: 'A4 sheet, 8 per page', page: [210, 297], label: [99.1, 67.7], columns: 2, rows: 4, origin: [4.65, 13.1], gap: [2.5, 0] },
+    // Avery L7163 / J8163: 2 x 7, 99.1 x 38.1 mm
+    'a4-14': { name: 'A4 sheet, 14 per page', page: [210, 297], label: [99.1, 38.1], columns: 2, rows: 7, origin: [4.65, 15.15], gap: [2.5, 0] },
+    'thermal-4x6': { name: 'Thermal 4 x 6 in', page: [101.6, 152.4], label: [101.6, 152.4], columns: 1, rows: 1, origin: [0, 0], gap: [0, 0] },
+};
+
+export interface BoxLabel {
+    bill: BillData;
+    box: number; // 1-based
+}
+
+// One label per box, in bill order. Bills with no boxes get no labels.
+export const expandBoxLabels = (bills: BillData[]): BoxLabel[] =>
+    bills.flatMap(bill => bill.boxes.map(b => ({ bill, box: b.index })));
+
+const drawLabel = async (doc: jsPDF, { bill, box }: BoxLabel, x: number, y: number, width: number, height: number) => {
+    const pad = Math.min(4, height * 0.08);
+    const compact = height < 50;
+    const theme = getThemeStyles(bill.colorTheme, bill.description);
+
+    // Group colour band
+    const bandHeight = compact ? 6 : 9;
+    doc.setFillColor(theme.hex);
+    doc.rect(x, y, width, bandHeight, 'F');
+    doc.setTextColor('#ffffff');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(compact ? 8 : 10);
+    doc.text((bill.description || 'No Group').toUpperCase(), x + pad, y + bandHeight * 0.68, { maxWidth: width * 0.55 });
+    doc.text(`BOX ${box} OF ${bill.boxes.length}`, x + width - pad, y + bandHeight * 0.68, { align: 'right' });
+    doc.setTextColor('#111827');
+
+    // QR on the right, sized to the space below the band
+    const qrSize = Math.min(height - bandHeight - pad * 2, width * 0.38);
+    const qr = await QRCode.toDataURL(encodeBoxCode(bill.id, box), { margin: 0, width: 256, errorCorrectionLevel: 'M' });
+    doc.addImage(qr, 'PNG', x + width - pad - qrSize, y + bandHeight + pad, qrSize, qrSize);
+
+    // Text block on the left
+    const textWidth = width - qrSize - pad * 3;
+    let ty = y + bandHeight + pad + (compact ? 3 : 5);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(compact ? 10 : 14);
+    const nameLines = doc.splitTextToSize(bill.customerName || 'Unknown Customer', textWidth).slice(0, 2);
+    doc.text(nameLines, x + pad, ty);
+    ty += nameLines.length * (compact ? 4 : 6);
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(compact ? 7 : 9);
+    const maxAddressLines = compact ? 2 : height > 100 ? 8 : 3;
+    const addressLines = doc.splitTextToSize(bill.address || '', textWidth).slice(0, maxAddressLines);
+    doc.text(addressLines, x + pad, ty);
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(compact ? 8 : 11);
+    doc.text(`Inv: ${bill.invoiceNo || '---'}`, x + pad, y + height - pad);
+    if (!compact) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor('#6b7280');
+        doc.text(bill.billDate || bill.entryDate, x + pad + textWidth, y + height - pad, { align: 'right' });
+        doc.setTextColor('#111827');
+    }
+
+    // Large box number for thermal labels, read from across the floor
+    if (height > 100) {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(64);
+        doc.text(`${box}/${bill.boxes.length}`, x + width / 2, y + height - 24, { align: 'center' });
+    }
+};
+
+// `skip` leaves the first N positions of the first sheet empty so part-used sheets can be reused
+export const buildLabelSheet = async (bills: BillData[], format: LabelFormat, skip = 0): Promise<jsPDF> => {
+    const layout = LABEL_LAYOUTS[format];
+    const [pageW, pageH] = layout.page;
+    const doc = new jsPDF({ unit: 'mm', format: [pageW, pageH], orientation: pageW > pageH ? 'landscape' : 'portrait' });
+    const perPage = layout.columns * layout.rows;
+    const labels = expandBoxLabels(bills);
+
+    for (let i = 0; i < labels.length; i++) {
+        const slot = i + skip;
+        if (slot > 0 && slot % perPage === 0) doc.addPage([pageW, pageH]);
+        const position = slot % perPage;
+        const col = position % layout.columns;
+        const row = Math.floor(position / layout.columns);
+        const [w, h] = layout.label;
+        const x = layout.origin[0] + col * (w + layout.gap[0]);
+        const y = layout.origin[1] + row * (h + layout.gap[1]);
+        await drawLabel(doc, labels[i], x, y, w, h);
+    }
+    return doc;
+};
+
+export const printLabels = async (bills: BillData[], format: LabelFormat, skip = 0) => {
+    // Open the tab before the async work so popup blockers treat it as user-initiated
+    const tab = window.open('', '_blank');
+    const doc = await buildLabelSheet(bills, format, skip);
+    doc.autoPrint();
+    const url = doc.output('bloburl').toString();
+    if (tab) tab.location.href = url;
+    else window.open(url, '_blank');
+};
+
+export const downloadLabels = async (bills: BillData[], format: LabelFormat, skip = 0) => {
+    const doc = await buildLabelSheet(bills, format, skip);
+    doc.save(`Grace_Labels_${new Date().toISOString().split('T')[0]}.pdf`);
+};
@@ -0,0 +1,233 @@
+import { jsPDF } from 'jspdf';
+import * as XLSX from 'xlsx';
+import { BillData, PackingStatus } from '../types';
+import { STATUS_LABELS, lastStatusEvent } from './statusService';
+import { getSessionUser } from './sessionService';
+import { toLocalDateString } from './dateService';
+
+const MANIFESTS_KEY = 'grace_manifests';
+
+// One delivery run per entry date. Stops are derived from the bills; only their order is stored.
+export interface DeliveryManifest {
+    date: string; // YYYY-MM-DD
+    vehicle: string;
+    driver: string;
+    stopOrder: string[]; // Stop keys in delivery order; stops not listed follow, grouped by area
+    updatedAt: number;
+}
+
+export interface ManifestStop {
+    key: string;
+    customerName: string;
+    address: string;
+    area: string; // Display name of the cluster, e.g. "560034" or "Koramangala"
+    pincode?: string;
+    bills: BillData[];
+    boxes: number;
+}
+
+// --- ADDRESS PARSING ---
+
+const PINCODE_PATTERN = /\b(\d{3})\s?(\d{3})\b/;
+const NOT_AN_AREA = /^(india|karnataka|kerala|tamil ?nadu|maharashtra|andhra pradesh|telangana|goa|dist\.?|district)$/i;
+
+// Indian 6-digit PIN, tolerating "560 034"
+export const parsePincode = (address: string): string | undefined => {
+    const match = address.match(PINCODE_PATTERN);
+    return match ? match[1] + match[2] : undefined;
+};
+
+// Last address segment that reads like a locality: not the PIN, not a state or country
+export const parseArea = (address: string): string | undefined => {
+    const segments = address
+        .split(/[,\n]/)
+        .map(s => s.replace(PINCODE_PATTERN, '').replace(/[-–]\s*$/, '').trim())
+        .filter(s => s && !/^\d+$/.test(s) && !NOT_AN_AREA.test(s));
+    const area = segments[segments.length - 1];
+    return area ? area.replace(/\b\w/g, c => c.toUpperCase()) : undefined;
+};
+
+const UNKNOWN_AREA = 'No Address';
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Bills for the same customer at the same place are one stop
+export const buildStops = (bills: BillData[]): ManifestStop[] => {
+    const stops = new Map<string, ManifestStop>();
+    bills.forEach(bill => {
+        const pincode = parsePincode(bill.address);
+        const area = pincode || parseArea(bill.address) || UNKNOWN_AREA;
+        const key = `${normalize(area)}|${normalize(bill.customerName) || bill.id}`;
+        if (!stops.has(key)) {
+            stops.set(key, { key, customerName: bill.customerName, address: bill.address, area, pincode, bills: [], boxes: 0 });
+        }
+        const stop = stops.get(key)!;
+        stop.bills.push(bill);
+        stop.boxes += bill.boxes.length;
+    });
+    return [...stops.values()];
+};
+
+// Saved order first, then the rest clustered by area, areas and customers alphabetically
+export const orderStops = (stops: ManifestStop[], stopOrder: string[]): ManifestStop[] => {
+    const position = new Map<string, number>(stopOrder.map((key, i) => [key, i]));
+    const byArea = (a: ManifestStop, b: ManifestStop) =>
+        (a.area === UNKNOWN_AREA ? 1 : 0) - (b.area === UNKNOWN_AREA ? 1 : 0)
+        || a.area.localeCompare(b.area)
+        || a.customerName.localeCompare(b.customerName);
+    const placed = stops.filter(s => position.has(s.key)).sort((a, b) => position.get(a.key)! - position.get(b.key)!);
+    const unplaced = stops.filter(s => !position.has(s.key)).sort(byArea);
+    return [...placed, ...unplaced];
+};
+
+const dispatchedOn = (bill: BillData, date: string) => {
+    const event = lastStatusEvent(bill, PackingStatus.DISPATCHED);
+    return !!event && toLocalDateString(event.at) === date;
+};
+
+// Delivery bills entered on `date`, plus earlier ones that haven't left yet or left that day
+export const manifestBills = (bills: BillData[], date: string) =>
+    bills.filter(b => b.isDelivery && (
+        b.entryDate === date
+        || (b.entryDate < date && b.status !== PackingStatus.DISPATCHED && b.status !== PackingStatus.DELIVERED)
+        || (b.entryDate < date && dispatchedOn(b, date))
+    ));
+
+// --- STORAGE ---
+// Manifests stay on this device: they are included in backups but not synced.
+
+export const readManifests = (): Record<string, DeliveryManifest> => {
+    try {
+        return JSON.parse(localStorage.getItem(MANIFESTS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+export const getManifest = (date: string): DeliveryManifest =>
+    readManifests()[date] ?? { date, vehicle: '', driver: '', stopOrder: [], updatedAt: 0 };
+
+export const saveManifest = (manifest: DeliveryManifest) => {
+    const all = readManifests();
+    all[manifest.date] = { ...manifest, updatedAt: Date.now() };
+    localStorage.setItem(MANIFESTS_KEY, JSON.stringify(all));
+};
+
+// From a backup: `replace` swaps in the backup's manifests, merging keeps the newer one for each date
+export const restoreManifests = (restored: Record<string, DeliveryManifest>, replace: boolean) => {
+    const all = replace ? {} : readManifests();
+    Object.values(restored).forEach(m => {
+        if (!all[m.date] || m.updatedAt > all[m.date].updatedAt) all[m.date] = m;
+    });
+    localStorage.setItem(MANIFESTS_KEY, JSON.stringify(all));
+};
+
+// --- PRINT & EXPORT ---
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+
+export const buildManifestPdf = (manifest: DeliveryManifest, stops: ManifestStop[]): jsPDF => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    let y = MARGIN;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(18);
+    doc.text('Delivery Manifest', MARGIN, y + 6);
+    y += 12;
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    const totalBoxes = stops.reduce((sum, s) => sum + s.boxes, 0);
+    doc.text(`Date: ${manifest.date}    Vehicle: ${manifest.vehicle || '________'}    Driver: ${manifest.driver || '________'}`, MARGIN, y);
+    y += 5;
+    doc.setTextColor('#6b7280');
+    doc.text(`${stops.length} stops  ·  ${totalBoxes} boxes  ·  Printed ${new Date().toLocaleString()} by ${getSessionUser()}`, MARGIN, y);
+    doc.setTextColor('#111827');
+    y += 8;
+
+    let area: string | null = null;
+    stops.forEach((stop, i) => {
+        const addressLines: string[] = doc.splitTextToSize(stop.address || '', 110).slice(0, 3);
+        const invoices = stop.bills.map(b => b.invoiceNo || '---').join(', ');
+        const height = 12 + addressLines.length * 4;
+        if (y + height + (stop.area !== area ? 8 : 0) > PAGE_HEIGHT - MARGIN - 8) {
+            doc.addPage();
+            y = MARGIN;
+            area = null;
+        }
+
+        if (stop.area !== area) {
+            area = stop.area;
+            doc.setFillColor('#f3f4f6');
+            doc.rect(MARGIN, y, PAGE_WIDTH - MARGIN * 2, 6, 'F');
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(9);
+            doc.text(area.toUpperCase(), MARGIN + 2, y + 4.2);
+            y += 8;
+        }
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(14);
+        doc.text(String(i + 1), MARGIN + 2, y + 5);
+        doc.setFontSize(11);
+        doc.text(stop.customerName || 'Unknown Customer', MARGIN + 12, y + 4, { maxWidth: 110 });
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8.5);
+        doc.text(addressLines, MARGIN + 12, y + 8.5);
+        doc.text(`Inv: ${invoices}`, MARGIN + 12, y + 8.5 + addressLines.length * 4, { maxWidth: 110 });
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(14);
+        doc.text(String(stop.boxes), 148, y + 5, { align: 'right' });
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.text('BOXES', 148, y + 8.5, { align: 'right' });
+
+        // Receiver signs on the printed copy
+        doc.setDrawColor('#9ca3af');
+        doc.line(156, y + height - 3, PAGE_WIDTH - MARGIN, y + height - 3);
+        doc.text('Received by', 156, y + height);
+
+        doc.setDrawColor('#e5e7eb');
+        doc.line(MARGIN, y + height + 1.5, PAGE_WIDTH - MARGIN, y + height + 1.5);
+        y += height + 3;
+    });
+
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+        doc.setPage(page);
+        doc.setFontSize(8);
+        doc.setTextColor('#9ca3af');
+        doc.text(`Grace Best  ·  Manifest ${manifest.date}  ·  Page ${page} of ${pages}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 8, { align: 'center' });
+    }
+    return doc;
+};
+
+export const printManifest = (manifest: DeliveryManifest, stops: ManifestStop[]) => {
+    const doc = buildManifestPdf(manifest, stops);
+    doc.autoPrint();
+    window.open(doc.output('bloburl'), '_blank');
+};
+
+export const downloadManifestPdf = (manifest: DeliveryManifest, stops: ManifestStop[]) => {
+    buildManifestPdf(manifest, stops).save(`Grace_Manifest_${manifest.date}.pdf`);
+};
+
+export const exportManifestSheet = (manifest: DeliveryManifest, stops: ManifestStop[]) => {
+    const rows = stops.map((stop, i) => ({
+        'Stop': i + 1,
+        'Area': stop.area,
+        'Customer Name': stop.customerName,
+        'Address': stop.address,
+        'Invoice No': stop.bills.map(b => b.invoiceNo).join(', '),
+        'Boxes': stop.boxes,
+        'Status': [...new Set(stop.bills.map(b => STATUS_LABELS[b.status]))].join(', '),
+    }));
+    const ws = XLSX.utils.json_to_sheet(rows);
+    XLSX.utils.sheet_add_aoa(ws, [[], ['Vehicle', manifest.vehicle], ['Driver', manifest.driver], ['Total Boxes', stops.reduce((sum, s) => sum + s.boxes, 0)]], { origin: -1 });
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Manifest');
+    XLSX.writeFile(wb, `Grace_Manifest_${manifest.date}.xlsx`);
+};
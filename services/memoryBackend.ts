@@ -0,0 +1,70 @@
+import { BillData } from '../types';
+import { SyncBackend, RemoteRow, RemoteChange, SyncRejectedError } from './syncBackend';
+
+export interface MemoryBackend extends SyncBackend {
+    rows: Map<string, RemoteRow>;
+    blobs: Map<string, Blob>; // Keyed `${ref}/${variant}`
+    rejectedIds: Set<string>; // Upserts touching these ids are refused, like a server rejecting invalid data
+    // Simulate another device writing or purging a bill; subscribers are notified like a real feed
+    simulateRemoteUpsert: (bill: BillData) => void;
+    simulateRemoteDelete: (id: string) => void;
+}
+
+// In-memory fake for exercising the sync engine without any cloud. State is lost on reload.
+export const createMemoryBackend = (initialRows: RemoteRow[] = []): MemoryBackend => {
+    const rows = new Map(initialRows.map(r => [r.id, r]));
+    const blobs = new Map<string, Blob>();
+    const rejectedIds = new Set<string>();
+    const handlers = new Set<(change: RemoteChange) => void>();
+    const emit = (change: RemoteChange) => handlers.forEach(h => h(change));
+
+    const put = (row: RemoteRow) => {
+        // Store a copy, like a real server would
+        const copy: RemoteRow = JSON.parse(JSON.stringify(row));
+        rows.set(copy.id, copy);
+        emit({ type: 'upsert', row: copy });
+    };
+
+    const remove = (id: string) => {
+        if (rows.delete(id)) emit({ type: 'delete', id });
+    };
+
+    return {
+        rows,
+        blobs,
+        rejectedIds,
+
+        fetchChanges: async (since) =>
+            Array.from(rows.values())
+                .filter(r => r.updated_at > since)
+                .sort((a, b) => a.updated_at - b.updated_at || a.id.localeCompare(b.id)),
+
+        fetchRows: async (ids) =>
+            ids.filter(id => rows.has(id)).map(id => JSON.parse(JSON.stringify(rows.get(id)))),
+
+        upsert: async (newRows) => {
+            const rejected = newRows.filter(r => rejectedIds.has(r.id));
+            if (rejected.length > 0) throw new SyncRejectedError(`Rejected ${rejected.map(r => r.id).join(', ')}`);
+            newRows.forEach(put);
+        },
+
+        delete: async (ids) => ids.forEach(remove),
+
+        subscribe: (onChange) => {
+            handlers.add(onChange);
+            return () => { handlers.delete(onChange); };
+        },
+
+        images: {
+            putImage: async (ref, variant, blob) => { blobs.set(`${ref}/${variant}`, blob); },
+            getImage: async (ref, variant) => blobs.get(`${ref}/${variant}`) ?? null,
+            deleteImages: async (refs) => refs.forEach(ref => {
+                blobs.delete(`${ref}/full`);
+                blobs.delete(`${ref}/thumb`);
+            }),
+        },
+
+        simulateRemoteUpsert: (bill) => put({ id: bill.id, data: bill, updated_at: bill.updatedAt }),
+        simulateRemoteDelete: remove,
+    };
+};
@@ -0,0 +1,176 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { BillBox, BillData, PackingStatus } from '../types';
+import { mergeBills, mergeBoxes } from './mergeService';
+
+const bill = (changes: Partial<BillData> = {}): BillData => ({
+    id: 'bill-1',
+    customerName: 'Sri Lakshmi Stores',
+    address: 'Koramangala',
+    invoiceNo: 'GB-1042',
+    billDate: '2024-06-12',
+    status: PackingStatus.PENDING,
+    isDelivery: false,
+    hasCRN: false,
+    isEditedBill: false,
+    isAdditionalBill: false,
+    lineItems: [],
+    boxes: [],
+    description: '',
+    schemaVersion: 13,
+    entryDate: '2024-06-12',
+    createdAt: 1000,
+    updatedAt: 1000,
+    statusHistory: [],
+    ...changes,
+});
+
+const box = (index: number, status = PackingStatus.PENDING, changes: Partial<BillBox> = {}): BillBox =>
+    ({ index, status, ...changes });
+
+describe('mergeBills', () => {
+    it('keeps changes made on different fields on each side', () => {
+        const base = bill();
+        const local = bill({ address: 'Indiranagar', updatedAt: 2000, fieldUpdatedAt: { address: 2000 } });
+        const remote = bill({ description: 'Hosur Rd', updatedAt: 3000, fieldUpdatedAt: { description: 3000 } });
+
+        const { merged, conflicts } = mergeBills(base, local, remote);
+
+        expect(merged.address).toBe('Indiranagar');
+        expect(merged.description).toBe('Hosur Rd');
+        expect(merged.updatedAt).toBe(3000);
+        expect(conflicts).toEqual([]);
+    });
+
+    it('reports a conflict field changed on both sides and takes the remote value for now', () => {
+        const base = bill();
+        const local = bill({ invoiceNo: 'GB-1043', updatedAt: 3000, fieldUpdatedAt: { invoiceNo: 3000 } });
+        const remote = bill({ invoiceNo: 'GB-1044', updatedAt: 2000, fieldUpdatedAt: { invoiceNo: 2000 } });
+
+        const { merged, conflicts } = mergeBills(base, local, remote);
+
+        expect(merged.invoiceNo).toBe('GB-1044');
+        expect(conflicts).toEqual([{ field: 'invoiceNo', baseValue: 'GB-1042', localValue: 'GB-1043', remoteValue: 'GB-1044' }]);
+    });
+
+    it('gives a low-stakes field changed on both sides to the newer edit', () => {
+        const base = bill();
+        const local = bill({ address: 'Indiranagar', updatedAt: 3000, fieldUpdatedAt: { address: 3000 } });
+        const remote = bill({ address: 'Hosur Rd', updatedAt: 2000, fieldUpdatedAt: { address: 2000 } });
+
+        const { merged, conflicts } = mergeBills(base, local, remote);
+
+        expect(merged.address).toBe('Indiranagar');
+        expect(conflicts).toEqual([]);
+    });
+
+    it('does not let a stale remote value overwrite a newer local edit', () => {
+        // The base already has the local edit, but a device that missed it pushed its older copy
+        const base = bill({ address: 'Indiranagar' });
+        const local = bill({ address: 'Indiranagar', updatedAt: 3000, fieldUpdatedAt: { address: 3000 } });
+        const remote = bill({ address: 'Koramangala', updatedAt: 4000, fieldUpdatedAt: { address: 1000 } });
+
+        expect(mergeBills(base, local, remote).merged.address).toBe('Indiranagar');
+    });
+
+    it('takes a remote-only change on a bill that has no field stamps', () => {
+        const base = bill();
+        const local = bill();
+        const remote = bill({ address: 'Hosur Rd', updatedAt: 2000 });
+
+        const { merged } = mergeBills(base, local, remote);
+
+        expect(merged.address).toBe('Hosur Rd');
+        expect(merged.fieldUpdatedAt?.address).toBe(2000);
+    });
+
+    it('falls back to the newest edit when there is no base', () => {
+        const local = bill({ invoiceNo: 'GB-1043', updatedAt: 2000 });
+        const remote = bill({ invoiceNo: 'GB-1044', updatedAt: 3000 });
+
+        const { merged, conflicts } = mergeBills(undefined, local, remote);
+
+        expect(merged.invoiceNo).toBe('GB-1044');
+        expect(conflicts).toEqual([]);
+    });
+
+    it('drops a status conflict once the merged status agrees with the remote one', () => {
+        const base = bill({ boxes: [box(1), box(2)] });
+        const local = bill({
+            boxes: [box(1, PackingStatus.PACKED, { packedAt: 2000 }), box(2)],
+            status: PackingStatus.PACKED,
+            updatedAt: 2000,
+            fieldUpdatedAt: { boxes: 2000, status: 2000 },
+        });
+        const remote = bill({
+            boxes: [box(1), box(2, PackingStatus.PACKED, { packedAt: 2500 })],
+            status: PackingStatus.READY_FOR_DISPATCH,
+            updatedAt: 2500,
+            fieldUpdatedAt: { boxes: 2500, status: 2500 },
+        });
+
+        const { merged, conflicts } = mergeBills(base, local, remote);
+
+        expect(merged.boxes.map(b => b.status)).toEqual([PackingStatus.PACKED, PackingStatus.PACKED]);
+        expect(merged.status).toBe(PackingStatus.READY_FOR_DISPATCH);
+        expect(conflicts).toEqual([]);
+    });
+
+    it('marks the bill packed once both sides together have packed every box', () => {
+        const base = bill({ boxes: [box(1), box(2)] });
+        const local = bill({ boxes: [box(1, PackingStatus.PACKED, { packedAt: 2000 }), box(2)], updatedAt: 2000, fieldUpdatedAt: { boxes: 2000 } });
+        const remote = bill({ boxes: [box(1), box(2, PackingStatus.PACKED, { packedAt: 2500 })], updatedAt: 2500, fieldUpdatedAt: { boxes: 2500 } });
+
+        const { merged } = mergeBills(base, local, remote);
+
+        expect(merged.status).toBe(PackingStatus.PACKED);
+        expect(merged.packedAt).toBe(2500);
+    });
+});
+
+describe('mergeBoxes', () => {
+    it('takes whichever side changed a box', () => {
+        const base = [box(1), box(2)];
+        const local = [box(1, PackingStatus.PENDING, { weight: 4 }), box(2)];
+        const remote = [box(1), box(2, PackingStatus.PENDING, { note: 'fragile' })];
+
+        expect(mergeBoxes(base, local, remote, true)).toEqual([
+            box(1, PackingStatus.PENDING, { weight: 4 }),
+            box(2, PackingStatus.PENDING, { note: 'fragile' }),
+        ]);
+    });
+
+    it('keeps the packed copy of a box both sides changed', () => {
+        const base = [box(1)];
+        const local = [box(1, PackingStatus.PACKED, { packedAt: 2000 })];
+        const remote = [box(1, PackingStatus.PENDING, { weight: 6 })];
+
+        expect(mergeBoxes(base, local, remote, true)).toEqual(local);
+        expect(mergeBoxes(base, remote, local, false)).toEqual(local);
+    });
+
+    it('gives a box both sides changed to the newer edit when they agree on status', () => {
+        const base = [box(1)];
+        const local = [box(1, PackingStatus.PENDING, { weight: 4 })];
+        const remote = [box(1, PackingStatus.PENDING, { weight: 6 })];
+
+        expect(mergeBoxes(base, local, remote, true)).toEqual(remote);
+        expect(mergeBoxes(base, local, remote, false)).toEqual(local);
+    });
+
+    it('follows the newer side for the number of boxes', () => {
+        const base = [box(1), box(2)];
+        const local = [box(1), box(2), box(3)];
+        const remote = [box(1)];
+
+        expect(mergeBoxes(base, local, remote, false)).toHaveLength(3);
+        expect(mergeBoxes(base, local, remote, true)).toEqual([box(1)]);
+    });
+
+    it('merges without a base by treating every box as new', () => {
+        const local = [box(1, PackingStatus.PACKED, { packedAt: 2000 })];
+        const remote = [box(1), box(2)];
+
+        expect(mergeBoxes(undefined, local, remote, true)).toEqual([box(1, PackingStatus.PACKED, { packedAt: 2000 }), box(2)]);
+    });
+});
@@ -0,0 +1,172 @@
+import { BillBox, BillData, ImageAttachment, PackingStatus } from '../types';
+import { deriveBillStatus } from './boxService';
+
+// Fields merged independently during sync. `packedAt` and `statusHistory` travel with `status`, and the image with `imageId`/`imageRef`.
+// `boxes` merges box by box, see mergeBoxes.
+export const MERGE_FIELDS = [
+    'customerName', 'address', 'invoiceNo', 'billDate', 'status',
+    'isDelivery', 'hasCRN', 'isEditedBill', 'isAdditionalBill', 'parentBillId',
+    'lineItems', 'billTotal', 'boxes', 'description', 'colorTheme', 'entryDate', 'proofOfDelivery', 'crn', 'extraction',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+// When both devices change one of these differently, a person has to decide
+export const CONFLICT_FIELDS: MergeField[] = ['status', 'invoiceNo', 'customerName'];
+
+export const FIELD_LABELS: Record<MergeField, string> = {
+    customerName: 'Customer Name',
+    address: 'Address',
+    invoiceNo: 'Invoice No',
+    billDate: 'Bill Date',
+    status: 'Status',
+    isDelivery: 'Delivery',
+    hasCRN: 'CRN',
+    isEditedBill: 'Edited',
+    isAdditionalBill: 'Add-on',
+    parentBillId: 'Original Invoice',
+    lineItems: 'Items',
+    billTotal: 'Bill Total',
+    boxes: 'Boxes',
+    description: 'Group Name',
+    colorTheme: 'Color Theme',
+    entryDate: 'Entry Date',
+    proofOfDelivery: 'Proof of Delivery',
+    crn: 'CRN Details',
+    extraction: 'AI Review',
+};
+
+export interface FieldConflict {
+    field: MergeField;
+    baseValue: unknown;
+    localValue: unknown;
+    remoteValue: unknown;
+}
+
+export interface MergeResult {
+    merged: BillData;
+    conflicts: FieldConflict[];
+}
+
+export const valuesEqual = (a: unknown, b: unknown) =>
+    a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export const billsEqual = (a: BillData, b: BillData) =>
+    MERGE_FIELDS.every(f => valuesEqual(a[f], b[f])) && a.packedAt === b.packedAt
+    && a.imageId === b.imageId && a.imageRef === b.imageRef;
+
+const fieldTime = (bill: BillData, field: MergeField) => bill.fieldUpdatedAt?.[field] ?? bill.updatedAt;
+
+// Records the edit time of every merge field that differs from the previous version
+export const stampFieldChanges = (prev: BillData | undefined, next: BillData): BillData => {
+    const fieldUpdatedAt = { ...next.fieldUpdatedAt };
+    MERGE_FIELDS.forEach(f => {
+        if (!prev || !valuesEqual(prev[f], next[f])) fieldUpdatedAt[f] = next.updatedAt;
+    });
+    return { ...next, fieldUpdatedAt };
+};
+
+type WithAttachments = Pick<BillData, 'proofOfDelivery' | 'crn'>;
+
+// Every picture a bill carries besides its own image
+export const attachmentsOf = (bill: WithAttachments): ImageAttachment[] =>
+    [bill.proofOfDelivery?.photo, bill.proofOfDelivery?.signature, bill.crn?.document].filter((a): a is ImageAttachment => !!a);
+
+export const mapAttachments = <T extends WithAttachments>(bill: T, fn: (attachment: ImageAttachment) => ImageAttachment): T => {
+    const pod = bill.proofOfDelivery;
+    const crn = bill.crn;
+    return {
+        ...bill,
+        ...(pod ? { proofOfDelivery: { ...pod, ...(pod.photo ? { photo: fn(pod.photo) } : {}), ...(pod.signature ? { signature: fn(pod.signature) } : {}) } } : {}),
+        ...(crn?.document ? { crn: { ...crn, document: fn(crn.document) } } : {}),
+    };
+};
+
+// Upload references are set without an edit, so a copy of the same pictures may lack them
+export const carryAttachmentRefs = <T extends WithAttachments>(bill: T, from?: WithAttachments): T => {
+    const refs = new Map(from ? attachmentsOf(from).filter(a => a.ref).map(a => [a.id, a.ref!]) : []);
+    if (refs.size === 0 || !attachmentsOf(bill).some(a => !a.ref && refs.has(a.id))) return bill;
+    return mapAttachments(bill, a => !a.ref && refs.has(a.id) ? { ...a, ref: refs.get(a.id) } : a);
+};
+
+// Two people packing different boxes of one bill shouldn't collide, so boxes merge one at a time.
+// The number of boxes follows the newer edit; a box changed on both sides keeps the packed copy,
+// or the later one if both agree on status.
+export const mergeBoxes = (base: BillBox[] = [], local: BillBox[], remote: BillBox[], remoteNewer: boolean): BillBox[] => {
+    const count = (remoteNewer ? remote : local).length;
+    return Array.from({ length: count }, (_, i) => {
+        const b = base[i], l = local[i], r = remote[i];
+        if (!l || !r) return l || r;
+        if (valuesEqual(l, b)) return r;
+        if (valuesEqual(r, b)) return l;
+        if (l.status !== r.status) return l.status === PackingStatus.PACKED ? l : r;
+        return remoteNewer ? r : l;
+    });
+};
+
+const copyField = <K extends MergeField>(to: BillData, from: BillData, field: K) => {
+    to[field] = from[field];
+};
+
+// Three-way merge of a local and remote bill against the last version both agreed on (`base`).
+// A field changed on one side only takes that side's value. A field changed differently on both
+// sides goes to the newer edit, except CONFLICT_FIELDS, which provisionally take the remote value
+// and are reported so the user can restore their own.
+export const mergeBills = (base: BillData | undefined, local: BillData, remote: BillData): MergeResult => {
+    const merged: BillData = { ...local, fieldUpdatedAt: { ...local.fieldUpdatedAt } };
+    const conflicts: FieldConflict[] = [];
+    const take = (field: MergeField, from: BillData) => {
+        copyField(merged, from, field);
+        merged.fieldUpdatedAt![field] = fieldTime(from, field);
+        if (field === 'status') {
+            merged.packedAt = from.packedAt;
+            merged.statusHistory = from.statusHistory;
+        }
+    };
+
+    MERGE_FIELDS.forEach(field => {
+        const l = local[field];
+        const r = remote[field];
+        if (valuesEqual(l, r)) return;
+
+        if (field === 'boxes') {
+            const remoteNewer = fieldTime(remote, field) > fieldTime(local, field);
+            merged.boxes = mergeBoxes(base?.boxes, local.boxes, remote.boxes, remoteNewer);
+            merged.fieldUpdatedAt![field] = Math.max(fieldTime(local, field), fieldTime(remote, field));
+            return;
+        }
+
+        if (base) {
+            // Changed remotely only, unless the remote value is older than ours (a stale row pushed over a newer one)
+            if (valuesEqual(l, base[field])) {
+                const staleRemote = fieldTime(remote, field) < (local.fieldUpdatedAt?.[field] ?? 0);
+                if (!staleRemote) take(field, remote);
+                return;
+            }
+            if (valuesEqual(r, base[field])) return; // Only changed locally
+            if (CONFLICT_FIELDS.includes(field)) {
+                conflicts.push({ field, baseValue: base[field], localValue: l, remoteValue: r });
+                return take(field, remote);
+            }
+        }
+        // No common ancestor or a low-stakes collision: newest edit wins
+        if (fieldTime(remote, field) > fieldTime(local, field)) take(field, remote);
+    });
+
+    // Merged boxes decide the status; drop a status conflict they have already settled
+    if (merged.boxes.length > 0) {
+        const derived = deriveBillStatus(merged);
+        merged.status = derived.status;
+        merged.packedAt = derived.packedAt;
+        const settled = conflicts.findIndex(c => c.field === 'status' && valuesEqual(c.remoteValue, derived.status));
+        if (settled >= 0) conflicts.splice(settled, 1);
+    }
+
+    Object.assign(merged, carryAttachmentRefs(carryAttachmentRefs(merged, remote), local));
+    if (!merged.imageId && remote.imageId) merged.imageId = remote.imageId;
+    if (!merged.imageRef && remote.imageRef) merged.imageRef = remote.imageRef;
+    // Rows from devices that predate blob storage still carry the image inline
+    if (!merged.imageUrl && remote.imageUrl) merged.imageUrl = remote.imageUrl;
+    merged.updatedAt = Math.max(local.updatedAt, remote.updatedAt);
+    return { merged, conflicts };
+};
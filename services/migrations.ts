@@ -0,0 +1,183 @@
+import { BillData, PackingStatus } from '../types';
+import { toLocalDateString } from './dateService';
+
+// Bump this and append a step to MIGRATIONS whenever the stored shape of BillData changes.
+export const CURRENT_SCHEMA_VERSION = 13;
+
+interface Migration {
+  version: number; // Version the record is at after this step
+  description: string;
+  up: (record: any) => any;
+}
+
+// Ordered registry. Each step receives a record at `version - 1` and returns it at `version`.
+// Steps must be pure and tolerate partially-filled records from old devices.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Baseline: fill defaults for fields that pre-date schema versioning',
+    up: (r) => {
+      const createdAt = Number(r.createdAt) || Date.now();
+      return {
+        ...r,
+        customerName: r.customerName ?? '',
+        address: r.address ?? '',
+        invoiceNo: r.invoiceNo ?? '',
+        billDate: r.billDate ?? '',
+        status: r.status === PackingStatus.PACKED ? PackingStatus.PACKED : PackingStatus.PENDING,
+        isDelivery: !!r.isDelivery,
+        hasCRN: !!r.hasCRN,
+        isEditedBill: !!r.isEditedBill,
+        isAdditionalBill: !!r.isAdditionalBill,
+        boxCount: Math.max(0, Number(r.boxCount) || 0),
+        description: r.description ?? '',
+        entryDate: r.entryDate || toLocalDateString(createdAt),
+        createdAt,
+        updatedAt: Number(r.updatedAt) || createdAt,
+      };
+    },
+  },
+  {
+    version: 2,
+    description: 'Tombstones: optional deletedAt/deletedBy, absent on live bills',
+    up: (r) => {
+      if (!r.deletedAt) {
+        const { deletedAt, deletedBy, ...live } = r;
+        return live;
+      }
+      return r;
+    },
+  },
+  {
+    version: 3,
+    description: 'Per-field edit timestamps; existing fields count as edited at the last update',
+    up: (r) => ({ ...r, fieldUpdatedAt: r.fieldUpdatedAt ?? {} }),
+  },
+  {
+    version: 4,
+    description: 'Images move to blob storage behind imageRef; inline base64 is kept until it is re-uploaded',
+    up: (r) => {
+      // Only data URLs are portable; object URLs are meaningless outside the device that made them
+      if (r.imageUrl && !String(r.imageUrl).startsWith('data:')) {
+        const { imageUrl, ...rest } = r;
+        return rest;
+      }
+      return r;
+    },
+  },
+  {
+    version: 5,
+    description: 'Scanned boxes: bills already packed count every box as scanned',
+    up: (r) => ({
+      ...r,
+      packedBoxes: Array.isArray(r.packedBoxes)
+        ? r.packedBoxes
+        : r.status === PackingStatus.PACKED ? Array.from({ length: r.boxCount }, (_, i) => i + 1) : [],
+    }),
+  },
+  {
+    version: 6,
+    description: 'Per-box records replace boxCount/packedBoxes; scanned boxes keep the bill\'s packed time',
+    up: (r) => {
+      const { boxCount, packedBoxes, ...rest } = r;
+      // A bill set back to pending by hand after every box was scanned stays pending
+      const allScanned = boxCount > 0 && Array.from({ length: boxCount }, (_, i) => i + 1).every(n => packedBoxes.includes(n));
+      const packed = new Set<number>(allScanned && r.status !== PackingStatus.PACKED ? [] : packedBoxes);
+      const boxes = Array.from({ length: boxCount }, (_, i) => packed.has(i + 1)
+        ? { index: i + 1, status: PackingStatus.PACKED, ...(r.packedAt ? { packedAt: r.packedAt } : {}) }
+        : { index: i + 1, status: PackingStatus.PENDING });
+      const { boxCount: countAt, packedBoxes: packedAt, ...fieldUpdatedAt } = r.fieldUpdatedAt ?? {};
+      const boxesAt = Math.max(countAt || 0, packedAt || 0);
+      return { ...rest, boxes, fieldUpdatedAt: boxesAt ? { ...fieldUpdatedAt, boxes: boxesAt } : fieldUpdatedAt };
+    },
+  },
+  {
+    version: 7,
+    description: 'Dispatch stages: status changes are logged from here on, earlier ones are not reconstructed',
+    up: (r) => ({ ...r, statusHistory: Array.isArray(r.statusHistory) ? r.statusHistory : [] }),
+  },
+  {
+    version: 8,
+    description: 'Proof of delivery: optional, absent until captured; its pictures are image attachments',
+    up: (r) => {
+      if (!r.proofOfDelivery) {
+        const { proofOfDelivery, ...rest } = r;
+        return rest;
+      }
+      return r;
+    },
+  },
+  {
+    version: 9,
+    description: 'CRN details: optional, added when a return note is recorded against the bill',
+    up: (r) => {
+      if (!r.crn) {
+        const { crn, ...rest } = r;
+        return rest;
+      }
+      return r;
+    },
+  },
+  {
+    version: 10,
+    description: 'Revision links: edited and additional bills may point at their original; earlier ones stay unlinked',
+    up: (r) => {
+      if (!r.parentBillId) {
+        const { parentBillId, ...rest } = r;
+        return rest;
+      }
+      return r;
+    },
+  },
+  {
+    version: 11,
+    description: 'Line items: bills entered before item extraction have none',
+    up: (r) => ({ ...r, lineItems: Array.isArray(r.lineItems) ? r.lineItems : [] }),
+  },
+  {
+    version: 12,
+    description: 'Extraction confidence: only recorded for new scans, earlier bills are not flagged for review',
+    up: (r) => {
+      if (!r.extraction) {
+        const { extraction, ...rest } = r;
+        return rest;
+      }
+      return r;
+    },
+  },
+  {
+    version: 13,
+    description: 'Extraction source: every scan before the offline reader was read by the AI',
+    up: (r) => (r.extraction ? { ...r, extraction: { source: 'ai', ...r.extraction } } : r),
+  },
+];
+
+export const getSchemaVersion = (record: any): number => Number(record?.schemaVersion) || 0;
+
+// Upgrades a raw stored/remote record to the current schema.
+// Returns null if the record is unusable; callers should skip it rather than overwrite anything.
+export const migrateBill = (raw: any): BillData | null => {
+  if (!raw || typeof raw !== 'object' || !raw.id) return null;
+
+  const from = getSchemaVersion(raw);
+  // Records written by a newer app version are passed through untouched so their extra fields survive
+  if (from >= CURRENT_SCHEMA_VERSION) return raw as BillData;
+
+  let record = raw;
+  try {
+    for (const step of MIGRATIONS) {
+      if (step.version <= from) continue;
+      record = { ...step.up(record), schemaVersion: step.version };
+    }
+  } catch (e) {
+    console.error(`Migration of bill ${raw.id} from v${from} failed:`, e);
+    return null;
+  }
+  return record as BillData;
+};
+
+// Never lowers the marker on records that came from a newer app version
+export const stampSchemaVersion = <T extends { schemaVersion?: number }>(record: T): T => ({
+  ...record,
+  schemaVersion: Math.max(getSchemaVersion(record), CURRENT_SCHEMA_VERSION),
+});
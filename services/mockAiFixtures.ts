@@ -0,0 +1,50 @@
+import { ExtractedBill, ExtractedCrn, emptyExtraction } from './aiProvider';
+
+// Canned extraction results for the offline mock. Covers a clean read, a shaky one that should be
+// flagged for review, and a failed read, so every branch of the capture flow can be exercised.
+export const BILL_FIXTURES: ExtractedBill[] = [
+    {
+        customerName: 'Sri Lakshmi Stores',
+        address: '14, 3rd Cross, Koramangala 4th Block, Bengaluru 560034',
+        invoiceNo: 'GB-1042',
+        billDate: '2024-06-12',
+        items: [
+            { product: 'Sunflower Oil 1L', quantity: 12, unit: 'pcs', amount: 1740 },
+            { product: 'Basmati Rice 5kg', quantity: 4, unit: 'bag', amount: 2360 },
+            { product: 'Toor Dal 1kg', quantity: 10, unit: 'pcs', amount: 1450 },
+        ],
+        total: 5550,
+        confidence: { customerName: 0.97, address: 0.92, invoiceNo: 0.99, billDate: 0.95, lineItems: 0.9 },
+        rawText: 'GRACE BEST DISTRIBUTORS\nTAX INVOICE  No: GB-1042  Date: 12/06/2024\nTo: Sri Lakshmi Stores\n14, 3rd Cross, Koramangala 4th Block\nBengaluru 560034\nSunflower Oil 1L   12 pcs   1740.00\nBasmati Rice 5kg    4 bag   2360.00\nToor Dal 1kg       10 pcs   1450.00\nTOTAL  5550.00',
+    },
+    {
+        customerName: 'New Balaji Traders',
+        address: 'Opp. Bus Stand, Hosur Rd',
+        invoiceNo: 'GB-1O57',
+        billDate: '2024-06-12',
+        items: [
+            { product: 'Detergent Powder 1kg', quantity: 24, unit: 'pcs', amount: 2880 },
+            { product: 'Bath Soap 4x100g', quantity: 6, unit: 'box', amount: 0 },
+        ],
+        total: 3420,
+        confidence: { customerName: 0.88, address: 0.41, invoiceNo: 0.52, billDate: 0.83, lineItems: 0.6 },
+        rawText: 'GRACE BEST DISTRIBUTORS\nNo: GB-1O57 (smudged)  Date: 12/06/24\nNew Balaji Traders\nOpp. Bus Stand, Hosur Rd ...\nDetergent Powder 1kg  24  2880.00\nBath Soap 4x100g  6 box  ----\nTOTAL 3420.00',
+    },
+    emptyExtraction(true),
+];
+
+export const CRN_FIXTURES: ExtractedCrn[] = [
+    {
+        crnNo: 'CRN-311',
+        originalInvoiceNo: 'GB-1042',
+        items: [{ product: 'Sunflower Oil 1L', quantity: 2 }],
+    },
+    {
+        crnNo: 'CRN-312',
+        originalInvoiceNo: 'GB-0998',
+        items: [
+            { product: 'Bath Soap 4x100g', quantity: 1 },
+            { product: 'Toor Dal 1kg', quantity: 3 },
+        ],
+    },
+];
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractedBill, emptyExtraction } from './aiProvider';
+import { BILL_FIXTURES, CRN_FIXTURES } from './mockAiFixtures';
+import { createMockProvider } from './mockAiProvider';
+
+const fixture = (invoiceNo: string): ExtractedBill => ({ ...emptyExtraction(), invoiceNo });
+
+describe('createMockProvider', () => {
+    it('is always available', () => {
+        expect(createMockProvider().isAvailable()).toBe(true);
+    });
+
+    it('reads the same photo the same way every time', async () => {
+        const provider = createMockProvider();
+        const first = await provider.extractBill('data:image/jpeg;base64,AAAA');
+        const again = await createMockProvider().extractBill('data:image/jpeg;base64,AAAA');
+
+        expect(again).toEqual(first);
+        expect(BILL_FIXTURES).toContainEqual(first);
+    });
+
+    it('picks from the fixtures it was given', async () => {
+        const fixtures = [fixture('A-1'), fixture('B-2'), fixture('C-3')];
+        const provider = createMockProvider(fixtures);
+        const images = Array.from({ length: 20 }, (_, i) => `image-${i}`);
+
+        const read = await Promise.all(images.map(image => provider.extractBill(image)));
+
+        expect(new Set(read.map(bill => bill.invoiceNo))).toEqual(new Set(['A-1', 'B-2', 'C-3']));
+    });
+
+    it('returns copies, so editing a result leaves the fixtures alone', async () => {
+        const fixtures = [fixture('A-1')];
+        const provider = createMockProvider(fixtures);
+
+        const bill = await provider.extractBill('image');
+        bill.invoiceNo = 'edited';
+        bill.confidence.invoiceNo = 0;
+
+        expect(fixtures[0].invoiceNo).toBe('A-1');
+        expect(fixtures[0].confidence).toEqual({});
+        expect((await provider.extractBill('image')).invoiceNo).toBe('A-1');
+    });
+
+    it('reads CRNs from the CRN fixtures', async () => {
+        const crn = await createMockProvider().extractCrn('image');
+
+        expect(CRN_FIXTURES).toContainEqual(crn);
+    });
+
+    it('echoes the message and the numbers from the context', async () => {
+        const context = 'Today: 2024-06-12\nNo numbers here\n  12 bills pending  \n3 packed\n5 delivered';
+
+        const reply = await createMockProvider().sendChat([], 'How many left?', context);
+
+        expect(reply).toBe('(mock) You said: "How many left?".\nToday: 2024-06-12\n12 bills pending\n3 packed');
+    });
+});
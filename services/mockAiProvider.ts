@@ -0,0 +1,35 @@
+import { AiProvider, ExtractedBill, ExtractedCrn } from './aiProvider';
+import { BILL_FIXTURES, CRN_FIXTURES } from './mockAiFixtures';
+
+// FNV-1a; the same image always picks the same fixture
+const hash = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+const pick = <T,>(fixtures: T[], key: string): T => fixtures[hash(key) % fixtures.length];
+
+// Deep copy so callers can't edit the fixtures through the result
+const copy = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Deterministic stand-in for a real model: no network, no key. Pass fixtures to script a test run.
+export const createMockProvider = (
+    billFixtures: ExtractedBill[] = BILL_FIXTURES,
+    crnFixtures: ExtractedCrn[] = CRN_FIXTURES,
+): AiProvider => ({
+    isAvailable: () => true,
+
+    extractBill: async (base64Image) => copy(pick(billFixtures, base64Image)),
+
+    extractCrn: async (base64Image) => copy(pick(crnFixtures, base64Image)),
+
+    // Echoes the numbers it was given, which is enough to check the context is wired up
+    sendChat: async (history, message, context) => {
+        const facts = context.split('\n').map(l => l.trim()).filter(l => /\d/.test(l)).slice(0, 3);
+        return [`(mock) You said: "${message}".`, ...facts].join('\n');
+    },
+});
@@ -0,0 +1,129 @@
+// On-device fallback for reading bills when the AI can't be reached.
+// Tesseract runs in its own Web Worker. The worker, engine and English data are served with the
+// app (see vite.config.ts), so reading never depends on reaching an outside server.
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import { ExtractedField } from '../types';
+import { ExtractedBill, emptyExtraction } from './aiProvider';
+
+interface OcrLine {
+    text: string;
+    confidence: number; // 0-1
+}
+
+// Pattern matches are guesses even on a sharp photo, so every field stays below the review threshold
+const MAX_OFFLINE_CONFIDENCE = 0.6;
+
+const assetUrl = (path: string) => new URL(`tesseract/${path}`, document.baseURI).href;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = () => {
+    if (!workerPromise) {
+        workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+            workerPath: assetUrl('worker.min.js'),
+            corePath: assetUrl('core'),
+            langPath: assetUrl('lang'),
+            workerBlobURL: false, // Load the worker from our origin rather than a blob copy of it
+        }).catch(err => {
+            workerPromise = null; // Let the next scan retry
+            throw err;
+        });
+    }
+    return workerPromise;
+};
+
+// Loads the reader ahead of time so the first scan without the AI doesn't wait for it
+export const prepareOfflineReader = async () => {
+    await getWorker();
+};
+
+const readLines = async (base64Image: string): Promise<OcrLine[]> => {
+    const worker = await getWorker();
+    const { data } = await worker.recognize(base64Image, {}, { blocks: true });
+    return (data.blocks || [])
+        .flatMap(block => block.paragraphs)
+        .flatMap(paragraph => paragraph.lines)
+        .map(line => ({ text: line.text.replace(/\s+/g, ' ').trim(), confidence: line.confidence / 100 }))
+        .filter(line => line.text);
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toIsoDate = (year: number, month: number, day: number) => {
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return '';
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Bills here are printed day-first: 12/06/2024, 12-06-24, 12.06.2024 or 12 Jun 2024
+const parseDate = (text: string): string => {
+    const numeric = text.match(/\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4}|\d{2})\b/);
+    if (numeric) return toIsoDate(Number(numeric[3]), Number(numeric[2]), Number(numeric[1]));
+    const named = text.match(/\b(\d{1,2})[\s\-]*([a-z]{3})[a-z]*[\s\-,]*(\d{4}|\d{2})\b/i);
+    const month = named ? MONTHS.indexOf(named[2].toLowerCase()) + 1 : 0;
+    return named && month ? toIsoDate(Number(named[3]), month, Number(named[1])) : '';
+};
+
+// "Invoice No: GB-1042", "Inv # 1042", "Bill No. A/245"
+const parseInvoiceNo = (text: string): string => {
+    const match = text.match(/\b(?:invoice|inv|bill)\s*(?:no|number|#)?\s*[.:#\-]*\s*([A-Z0-9][A-Z0-9\/\-]{1,})/i);
+    return match && /\d/.test(match[1]) ? match[1] : '';
+};
+
+const CUSTOMER_LABEL = /^(?:to|m\/s|bill\s*to|billed\s*to|buyer|customer|party|sold\s*to)\b\s*[.:\-]*\s*(.*)$/i;
+
+// The line labelled as the buyer, or the one right under the label when it stands alone
+const findCustomerName = (lines: OcrLine[]) => {
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].text.match(CUSTOMER_LABEL);
+        if (!match) continue;
+        const line = match[1].trim() ? { text: match[1].trim(), confidence: lines[i].confidence } : lines[i + 1];
+        if (line) return { value: line.text, confidence: line.confidence };
+    }
+    return { value: '', confidence: 0 };
+};
+
+// First line a parser finds a value on, with that line's OCR confidence
+const findField = (lines: OcrLine[], parse: (text: string) => string) => {
+    for (const line of lines) {
+        const value = parse(line.text);
+        if (value) return { value, confidence: line.confidence };
+    }
+    return { value: '', confidence: 0 };
+};
+
+const parseBillText = (lines: OcrLine[]): ExtractedBill => {
+    const dateLines = lines.filter(l => /date/i.test(l.text));
+    const invoice = findField(lines, parseInvoiceNo);
+    const date = findField(dateLines.length > 0 ? dateLines : lines, parseDate);
+    const customer = findCustomerName(lines);
+
+    const confidence: Partial<Record<ExtractedField, number>> = {
+        customerName: Math.min(customer.confidence, MAX_OFFLINE_CONFIDENCE),
+        address: 0,
+        invoiceNo: Math.min(invoice.confidence, MAX_OFFLINE_CONFIDENCE),
+        billDate: Math.min(date.confidence, MAX_OFFLINE_CONFIDENCE),
+    };
+
+    return {
+        ...emptyExtraction(),
+        customerName: customer.value,
+        invoiceNo: invoice.value,
+        billDate: date.value,
+        confidence,
+        rawText: lines.map(l => l.text).join('\n'),
+        source: 'offline',
+    };
+};
+
+// Never throws: like the AI providers, a failed read resolves with `failed` set
+export const readBillOffline = async (base64Image: string): Promise<ExtractedBill> => {
+    try {
+        const lines = await readLines(base64Image);
+        if (lines.length === 0) return { ...emptyExtraction(true), source: 'offline' };
+        return parseBillText(lines);
+    } catch (err) {
+        console.error("offline ocr error", err);
+        return { ...emptyExtraction(true), source: 'offline' };
+    }
+};
@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OUTBOX_STORE, idbGetAll, idbWrite } from './db';
+import { OutboxEntry, backoffDelay, enqueueOutbox, flushOutbox, getFailedOutboxEntries, retryFailedOutbox, startOutbox, stopOutbox } from './outboxService';
+import { SyncRejectedError } from './syncBackend';
+
+const queued = async () => (await idbGetAll<OutboxEntry>(OUTBOX_STORE)).sort((a, b) => a.seq! - b.seq!);
+
+afterEach(async () => {
+    stopOutbox();
+    vi.restoreAllMocks();
+    await idbWrite(OUTBOX_STORE, tx => tx.objectStore(OUTBOX_STORE).clear());
+});
+
+describe('backoffDelay', () => {
+    it('doubles with each attempt, jittered into the upper half', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        expect([1, 2, 3, 4].map(backoffDelay)).toEqual([1000, 2000, 4000, 8000]);
+
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(backoffDelay(1)).toBeCloseTo(2000, 0);
+    });
+
+    it('stops growing at five minutes', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(backoffDelay(20)).toBeCloseTo(5 * 60 * 1000, 0);
+        expect(backoffDelay(50)).toBeLessThanOrEqual(5 * 60 * 1000);
+    });
+});
+
+describe('outbox replay', () => {
+    it('keeps a failed batch, counts the attempt and retries after the backoff', async () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+        const processor = vi.fn()
+            .mockRejectedValueOnce(new Error('offline'))
+            .mockResolvedValue(undefined);
+
+        await enqueueOutbox('upsert', 'bill-1', 'bill-2');
+        startOutbox(processor);
+        // The retry is scheduled as the failed flush finishes
+        await vi.waitFor(() => expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 1000));
+
+        const entries = await queued();
+        expect(entries.map(e => e.billId)).toEqual(['bill-1', 'bill-2']);
+        expect(entries.every(e => e.attempts === 1 && e.lastError === 'Error: offline')).toBe(true);
+
+        await flushOutbox();
+        expect(processor).toHaveBeenCalledTimes(2);
+        expect(processor.mock.calls[1][0].map((e: OutboxEntry) => e.billId)).toEqual(['bill-1', 'bill-2']);
+        expect(await queued()).toEqual([]);
+    });
+
+    it('queues one upsert per bill until it is replayed', async () => {
+        await enqueueOutbox('upsert', 'bill-1');
+        await enqueueOutbox('upsert', 'bill-1', 'bill-2', 'bill-2');
+
+        expect((await queued()).map(e => e.billId)).toEqual(['bill-1', 'bill-2']);
+    });
+
+    it('holds entries while offline', async () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        const processor = vi.fn().mockResolvedValue(undefined);
+
+        await enqueueOutbox('upsert', 'bill-1');
+        startOutbox(processor);
+        await flushOutbox();
+
+        expect(processor).not.toHaveBeenCalled();
+        expect(await queued()).toHaveLength(1);
+    });
+
+    it('sets a rejected entry aside and sends the rest', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const sent: string[] = [];
+        const processor = vi.fn(async (entries: OutboxEntry[]) => {
+            if (entries.some(e => e.billId === 'bad')) throw new SyncRejectedError('invalid row');
+            sent.push(...entries.map(e => e.billId));
+        });
+
+        await enqueueOutbox('upsert', 'bill-1', 'bad', 'bill-2');
+        startOutbox(processor);
+        await vi.waitFor(async () => expect(await queued()).toHaveLength(1));
+
+        expect(sent).toEqual(['bill-1', 'bill-2']);
+        const failed = await getFailedOutboxEntries();
+        expect(failed.map(e => e.billId)).toEqual(['bad']);
+        expect(failed[0].lastError).toBe('Error: invalid row');
+    });
+
+    it('gives up on an entry that keeps failing and moves on', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const processor = vi.fn(async (entries: OutboxEntry[]) => {
+            if (entries.some(e => e.billId === 'stuck')) throw new Error('server error');
+        });
+        // Both have already been retried to the last attempt
+        await idbWrite(OUTBOX_STORE, tx => {
+            const store = tx.objectStore(OUTBOX_STORE);
+            ['stuck', 'bill-1'].forEach(billId => store.put({ op: 'upsert', billId, enqueuedAt: 1000, attempts: 11 }));
+        });
+
+        startOutbox(processor);
+        await vi.waitFor(async () => expect(await queued()).toHaveLength(1));
+
+        expect((await getFailedOutboxEntries()).map(e => e.billId)).toEqual(['stuck']);
+    });
+
+    it('requeues failed entries on retry, and a new edit replaces a failed one', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        let reject = true;
+        const processor = vi.fn(async () => {
+            if (reject) throw new SyncRejectedError('invalid row');
+        });
+
+        await enqueueOutbox('upsert', 'bill-1');
+        startOutbox(processor);
+        await vi.waitFor(async () => expect(await getFailedOutboxEntries()).toHaveLength(1));
+
+        await enqueueOutbox('upsert', 'bill-1');
+        expect((await queued()).map(e => [e.billId, !!e.failedAt])).toEqual([['bill-1', false]]);
+        await flushOutbox();
+        await vi.waitFor(async () => expect(await getFailedOutboxEntries()).toHaveLength(1));
+
+        reject = false;
+        await retryFailedOutbox();
+        expect(await queued()).toEqual([]);
+    });
+});
@@ -0,0 +1,178 @@
+import { OUTBOX_STORE, idbGetAll, idbWrite } from './db';
+import { SyncRejectedError } from './syncBackend';
+
+// Persistent queue of cloud writes that have not reached the server yet.
+// Entries only name the bill; the processor reads its latest local state at replay time.
+
+// Deletes travel as tombstone upserts, so upsert is the only remote write today
+export type OutboxOp = 'upsert';
+
+export interface OutboxEntry {
+    seq?: number; // Assigned by IndexedDB, defines replay order
+    op: OutboxOp;
+    billId: string;
+    enqueuedAt: number;
+    attempts: number;
+    lastError?: string;
+    failedAt?: number; // Set once the entry gave up; it waits for retryFailedOutbox instead of blocking the queue
+}
+
+// Receives up to OUTBOX_BATCH_SIZE entries in queue order; must throw if the batch was not applied,
+// a SyncRejectedError if the server refused the data itself
+type OutboxProcessor = (entries: OutboxEntry[]) => Promise<void>;
+type OutboxListener = (pendingCount: number, failedCount: number) => void;
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 50;
+// About 20 minutes of retries with backoff
+const MAX_ATTEMPTS = 12;
+
+let processor: OutboxProcessor | null = null;
+let flushing = false;
+let inFlight = new Set<number>(); // Entries whose bill state has already been read by the processor
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<OutboxListener>();
+
+const getAllEntries = async () =>
+    (await idbGetAll<OutboxEntry>(OUTBOX_STORE)).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+
+// Entries still due for replay
+const getEntries = async () => (await getAllEntries()).filter(e => !e.failedAt);
+
+export const getFailedOutboxEntries = async () => (await getAllEntries()).filter(e => !!e.failedAt);
+
+const notify = async () => {
+    if (listeners.size === 0) return;
+    try {
+        const entries = await getAllEntries();
+        const failed = entries.filter(e => e.failedAt).length;
+        listeners.forEach(l => l(entries.length - failed, failed));
+    } catch (e) {
+        console.error("Outbox count failed", e);
+    }
+};
+
+export const subscribeOutbox = (listener: OutboxListener) => {
+    listeners.add(listener);
+    notify();
+    return () => { listeners.delete(listener); };
+};
+
+export const backoffDelay = (attempts: number) => {
+    const delay = Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+    return delay / 2 + Math.random() * delay / 2; // Jitter so devices don't retry in lockstep
+};
+
+const scheduleRetry = (delay: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushOutbox();
+    }, delay);
+};
+
+export const enqueueOutbox = async (op: OutboxOp, ...billIds: string[]) => {
+    try {
+        // Upserts replay the latest local state, so one queued (not in-flight) upsert per bill is enough
+        const entries = await getAllEntries();
+        const queued = new Set(
+            entries.filter(e => !e.failedAt && !inFlight.has(e.seq!) && e.op === op).map(e => e.billId)
+        );
+        const fresh = Array.from(new Set(billIds)).filter(id => !queued.has(id));
+        // A new edit replaces a failed entry for the same bill; it replays the bill's latest state anyway
+        const superseded = entries.filter(e => e.failedAt && e.op === op && fresh.includes(e.billId));
+        if (fresh.length > 0) {
+            const now = Date.now();
+            await idbWrite(OUTBOX_STORE, tx => {
+                const store = tx.objectStore(OUTBOX_STORE);
+                superseded.forEach(e => store.delete(e.seq!));
+                fresh.forEach(billId => store.put({ op, billId, enqueuedAt: now, attempts: 0 } as OutboxEntry));
+            });
+        }
+    } catch (e) {
+        console.error("Outbox enqueue failed", e);
+    }
+    notify();
+};
+
+// Replays entries in order, in batches. A transient failure stops the flush so later writes never overtake
+// earlier ones. An entry the server rejects, or that keeps failing past MAX_ATTEMPTS, is set aside as failed
+// so one bad bill can't hold up the rest; a failing batch is replayed one entry at a time to find it.
+export const flushOutbox = async () => {
+    if (flushing || !processor || !navigator.onLine) return;
+    flushing = true;
+    try {
+        let batchSize = OUTBOX_BATCH_SIZE;
+        // Re-read each round so entries enqueued mid-flush are picked up too
+        let batch: OutboxEntry[];
+        while ((batch = (await getEntries()).slice(0, batchSize)).length > 0) {
+            inFlight = new Set(batch.map(e => e.seq!));
+            try {
+                await processor(batch);
+                await idbWrite(OUTBOX_STORE, tx => {
+                    const store = tx.objectStore(OUTBOX_STORE);
+                    batch.forEach(e => store.delete(e.seq!));
+                });
+            } catch (e) {
+                const attempts = batch[0].attempts + 1;
+                const giveUp = e instanceof SyncRejectedError || attempts >= MAX_ATTEMPTS;
+                if (giveUp && batch.length > 1) {
+                    batchSize = 1;
+                    continue;
+                }
+                const failed = giveUp ? { failedAt: Date.now() } : {};
+                await idbWrite(OUTBOX_STORE, tx => {
+                    const store = tx.objectStore(OUTBOX_STORE);
+                    batch.forEach(entry => store.put({ ...entry, attempts: entry.attempts + 1, lastError: String(e), ...failed }));
+                });
+                if (giveUp) {
+                    console.error(`Outbox entry for ${batch[0].billId} failed for good (attempt ${attempts})`, e);
+                    continue;
+                }
+                console.warn(`Outbox batch of ${batch.length} failed (attempt ${attempts})`, e);
+                scheduleRetry(backoffDelay(attempts));
+                break;
+            }
+        }
+    } catch (e) {
+        console.error("Outbox flush failed", e);
+    } finally {
+        inFlight = new Set();
+        flushing = false;
+        notify();
+    }
+};
+
+// Puts failed entries back in the queue, e.g. once the data or the server has been fixed
+export const retryFailedOutbox = async () => {
+    try {
+        const failed = await getFailedOutboxEntries();
+        if (failed.length > 0) {
+            await idbWrite(OUTBOX_STORE, tx => {
+                const store = tx.objectStore(OUTBOX_STORE);
+                failed.forEach(({ failedAt, ...entry }) => store.put({ ...entry, attempts: 0 }));
+            });
+        }
+    } catch (e) {
+        console.error("Outbox retry failed", e);
+    }
+    notify();
+    return flushOutbox();
+};
+
+const handleOnline = () => { flushOutbox(); };
+
+export const startOutbox = (fn: OutboxProcessor) => {
+    processor = fn;
+    window.addEventListener('online', handleOnline);
+    flushOutbox();
+};
+
+// Pending entries stay persisted and are replayed on the next start
+export const stopOutbox = () => {
+    processor = null;
+    window.removeEventListener('online', handleOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+};
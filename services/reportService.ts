@@ -0,0 +1,234 @@
+import { jsPDF } from 'jspdf';
+import { BillData, PackingStatus } from '../types';
+import { getThemeStyles } from './storageService';
+import { getSessionUser } from './sessionService';
+import { NO_GROUP_LABEL } from './exportService';
+import { packedBoxCount } from './boxService';
+import { STATUS_LABELS, isBacklog, isPacked, lastStatusEvent } from './statusService';
+import { CRN_STATUS_LABELS, crnStatusOf } from './crnService';
+
+// A4 portrait, millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+const ROW_HEIGHT = 6.5;
+
+interface Column {
+    label: string;
+    width: number;
+    value: (bill: BillData) => string;
+    align?: 'left' | 'right';
+}
+
+const formatTime = (timestamp?: number) =>
+    timestamp ? new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }) : '';
+
+const flagsOf = (bill: BillData) => [
+    bill.isDelivery && 'DEL',
+    bill.isAdditionalBill && 'ADD',
+    bill.isEditedBill && 'EDIT',
+].filter(Boolean).join(' ');
+
+// e.g. "CR-104 Pending"
+const crnCell = (bill: BillData) =>
+    bill.hasCRN ? [bill.crn?.crnNo, CRN_STATUS_LABELS[crnStatusOf(bill)]].filter(Boolean).join(' ') : '';
+
+// Packed bills show when they were packed; bills past packing keep that time next to where they are now
+const statusCell = (bill: BillData) => {
+    if (bill.status === PackingStatus.PENDING) return STATUS_LABELS[bill.status];
+    if (bill.status === PackingStatus.PACKED) return formatTime(bill.packedAt) || STATUS_LABELS[bill.status];
+    const packedTime = formatTime(lastStatusEvent(bill, PackingStatus.PACKED)?.at ?? bill.packedAt);
+    return [packedTime, STATUS_LABELS[bill.status]].filter(Boolean).join(' ');
+};
+
+const DAY_COLUMNS: Column[] = [
+    { label: 'Invoice No', width: 28, value: b => b.invoiceNo || '---' },
+    { label: 'Customer', width: 46, value: b => b.customerName || 'Unknown Customer' },
+    { label: 'Boxes', width: 14, value: b => String(b.boxes.length), align: 'right' },
+    { label: 'Flags', width: 24, value: flagsOf },
+    { label: 'CRN', width: 30, value: crnCell },
+    { label: 'Status', width: 40, value: statusCell },
+];
+
+const BACKLOG_COLUMNS: Column[] = [
+    { label: 'Entry Date', width: 22, value: b => b.entryDate },
+    { label: 'Invoice No', width: 26, value: b => b.invoiceNo || '---' },
+    { label: 'Customer', width: 52, value: b => b.customerName || 'Unknown Customer' },
+    { label: 'Group', width: 30, value: b => b.description || '' },
+    { label: 'Status', width: 24, value: b => STATUS_LABELS[b.status] },
+    { label: 'Boxes', width: 28, value: b => `${packedBoxCount(b)}/${b.boxes.length}`, align: 'right' },
+];
+
+const groupBills = (bills: BillData[]) => {
+    const groups = new Map<string, BillData[]>();
+    bills.forEach(b => {
+        const key = b.description.trim() || NO_GROUP_LABEL;
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(b);
+    });
+    // Named groups alphabetically, ungrouped bills last
+    return Array.from(groups.entries()).sort(([a], [b]) =>
+        a === NO_GROUP_LABEL ? 1 : b === NO_GROUP_LABEL ? -1 : a.localeCompare(b));
+};
+
+// Builds the end-of-shift report for `date`: that day's bills by group, the backlog and sign-off lines
+export const buildPackingReport = (date: string, allBills: BillData[]): jsPDF => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const dayBills = allBills.filter(b => b.entryDate === date).sort((a, b) => a.createdAt - b.createdAt);
+    const backlog = allBills
+        .filter(b => isBacklog(b) && b.entryDate < date)
+        .sort((a, b) => a.entryDate.localeCompare(b.entryDate));
+    let y = MARGIN;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > PAGE_HEIGHT - MARGIN - 8) {
+            doc.addPage();
+            y = MARGIN;
+        }
+    };
+
+    const heading = (text: string, size: number) => {
+        ensureSpace(size * 0.6);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(size);
+        doc.text(text, MARGIN, y + size * 0.35);
+        y += size * 0.55;
+    };
+
+    const tableHeader = (columns: Column[]) => {
+        ensureSpace(ROW_HEIGHT * 2);
+        doc.setFillColor('#f3f4f6');
+        doc.rect(MARGIN, y, PAGE_WIDTH - MARGIN * 2, ROW_HEIGHT, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.setTextColor('#6b7280');
+        let x = MARGIN + 2;
+        columns.forEach(c => {
+            doc.text(c.label.toUpperCase(), c.align === 'right' ? x + c.width - 4 : x, y + 4.3, { align: c.align || 'left' });
+            x += c.width;
+        });
+        doc.setTextColor('#111827');
+        y += ROW_HEIGHT;
+    };
+
+    const tableRows = (columns: Column[], bills: BillData[]) => {
+        bills.forEach(bill => {
+            if (y + ROW_HEIGHT > PAGE_HEIGHT - MARGIN - 8) {
+                doc.addPage();
+                y = MARGIN;
+                tableHeader(columns);
+            }
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(9);
+            let x = MARGIN + 2;
+            columns.forEach(c => {
+                const [line] = doc.splitTextToSize(c.value(bill), c.width - 3);
+                doc.text(line || '', c.align === 'right' ? x + c.width - 4 : x, y + 4.5, { align: c.align || 'left' });
+                x += c.width;
+            });
+            doc.setDrawColor('#e5e7eb');
+            doc.line(MARGIN, y + ROW_HEIGHT, PAGE_WIDTH - MARGIN, y + ROW_HEIGHT);
+            y += ROW_HEIGHT;
+        });
+    };
+
+    // Title and totals
+    heading('Daily Packing Report', 18);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor('#6b7280');
+    const [yr, mo, dy] = date.split('-').map(Number);
+    const printedDate = new Date(yr, mo - 1, dy).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    doc.text(`${printedDate}  ·  Generated ${new Date().toLocaleString()} by ${getSessionUser()}`, MARGIN, y + 3);
+    doc.setTextColor('#111827');
+    y += 9;
+
+    const packed = dayBills.filter(isPacked);
+    const totals = [
+        ['Bills', String(dayBills.length)],
+        ['Packed', String(packed.length)],
+        ['Pending', String(dayBills.length - packed.length)],
+        ['Boxes', String(dayBills.reduce((sum, b) => sum + b.boxes.length, 0))],
+        ['Backlog', String(backlog.length)],
+    ];
+    const boxWidth = (PAGE_WIDTH - MARGIN * 2 - 4 * 3) / totals.length;
+    totals.forEach(([label, value], i) => {
+        const x = MARGIN + i * (boxWidth + 3);
+        doc.setDrawColor('#d1d5db');
+        doc.roundedRect(x, y, boxWidth, 16, 2, 2, 'S');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(14);
+        doc.text(value, x + boxWidth / 2, y + 8, { align: 'center' });
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor('#6b7280');
+        doc.text(label.toUpperCase(), x + boxWidth / 2, y + 13, { align: 'center' });
+        doc.setTextColor('#111827');
+    });
+    y += 24;
+
+    // Day's bills by group
+    if (dayBills.length === 0) {
+        doc.setFont('helvetica', 'italic');
+        doc.setFontSize(10);
+        doc.text('No bills entered on this day.', MARGIN, y);
+        y += 8;
+    }
+    groupBills(dayBills).forEach(([group, bills]) => {
+        ensureSpace(ROW_HEIGHT * 4);
+        const theme = getThemeStyles(bills[0].colorTheme, bills[0].description);
+        doc.setFillColor(theme.hex);
+        doc.rect(MARGIN, y + 1, 3, 5, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(11);
+        const boxes = bills.reduce((sum, b) => sum + b.boxes.length, 0);
+        doc.text(`${group}  (${bills.length} bills, ${boxes} boxes)`, MARGIN + 5, y + 5);
+        y += 8;
+        tableHeader(DAY_COLUMNS);
+        tableRows(DAY_COLUMNS, bills);
+        y += 5;
+    });
+
+    // Backlog
+    if (backlog.length > 0) {
+        y += 3;
+        heading(`Backlog: ${backlog.length} open from earlier days`, 12);
+        y += 2;
+        tableHeader(BACKLOG_COLUMNS);
+        tableRows(BACKLOG_COLUMNS, backlog);
+    }
+
+    // Sign-off
+    y += 10;
+    ensureSpace(30);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    const slotWidth = (PAGE_WIDTH - MARGIN * 2 - 10 * 2) / 3;
+    ['Packed by', 'Checked by (Supervisor)', 'Date & Time'].forEach((label, i) => {
+        const x = MARGIN + i * (slotWidth + 10);
+        doc.setDrawColor('#111827');
+        doc.line(x, y + 15, x + slotWidth, y + 15);
+        doc.text(label, x, y + 20);
+    });
+
+    // Page numbers
+    const pages = doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+        doc.setPage(page);
+        doc.setFontSize(8);
+        doc.setTextColor('#9ca3af');
+        doc.text(`Grace Best  ·  ${date}  ·  Page ${page} of ${pages}`, PAGE_WIDTH / 2, PAGE_HEIGHT - 8, { align: 'center' });
+    }
+    return doc;
+};
+
+export const downloadPackingReport = (date: string, allBills: BillData[]) => {
+    buildPackingReport(date, allBills).save(`Grace_Packing_Report_${date}.pdf`);
+};
+
+// Opens the report in a new tab with the print dialog up
+export const printPackingReport = (date: string, allBills: BillData[]) => {
+    const doc = buildPackingReport(date, allBills);
+    doc.autoPrint();
+    window.open(doc.output('bloburl'), '_blank');
+};
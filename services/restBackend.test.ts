@@ -0,0 +1,166 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BillData, PackingStatus } from '../types';
+import { MemoryBackend, createMemoryBackend } from './memoryBackend';
+import { createRestBackend } from './restBackend';
+import { RemoteRow, SYNC_PAGE_SIZE, SyncRejectedError } from './syncBackend';
+import { attachSyncBackend, clearAllBills, disconnectSyncBackend, fullSync, saveBillToStorage } from './storageService';
+
+const BASE_URL = 'https://sync.example.test/api/';
+
+const bill = (id: string, updatedAt: number, changes: Partial<BillData> = {}): BillData => ({
+    id,
+    customerName: 'Sri Lakshmi Stores',
+    address: 'Koramangala',
+    invoiceNo: 'GB-1042',
+    billDate: '2024-06-12',
+    status: PackingStatus.PENDING,
+    isDelivery: false,
+    hasCRN: false,
+    isEditedBill: false,
+    isAdditionalBill: false,
+    lineItems: [],
+    boxes: [],
+    description: '',
+    schemaVersion: 13,
+    entryDate: '2024-06-12',
+    createdAt: 1000,
+    updatedAt,
+    statusHistory: [],
+    ...changes,
+});
+
+const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Serves the REST contract from restBackend.ts out of an in-memory backend
+const fakeServer = (server: MemoryBackend) => async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const path = url.pathname.replace(/^\/api/, '');
+    const method = init.method || 'GET';
+    const body = () => JSON.parse(init.body as string);
+
+    if (method === 'GET' && path === '/bills') {
+        const since = Number(url.searchParams.get('since'));
+        const after = url.searchParams.get('after');
+        const rows = (await server.fetchChanges(-Infinity)).filter(r =>
+            r.updated_at > since || (after !== null && r.updated_at === since && r.id > after));
+        return json(rows.slice(0, Number(url.searchParams.get('limit'))));
+    }
+    if (method === 'POST' && path === '/bills/fetch') return json(await server.fetchRows(body().ids));
+    if (method === 'POST' && path === '/bills') {
+        try {
+            await server.upsert(body());
+        } catch (e) {
+            return json({ error: String(e) }, 422);
+        }
+        return json({});
+    }
+    if (method === 'POST' && path === '/bills/delete') {
+        await server.delete(body().ids);
+        return json({});
+    }
+
+    const image = path.match(/^\/images\/([^/]+)\/(full|thumb)$/);
+    if (image && method === 'PUT') {
+        await server.images.putImage(decodeURIComponent(image[1]), image[2] as 'full', init.body as Blob);
+        return json({});
+    }
+    if (image && method === 'GET') {
+        const blob = await server.images.getImage(decodeURIComponent(image[1]), image[2] as 'full');
+        return blob ? new Response(blob) : json({ error: 'not found' }, 404);
+    }
+    if (method === 'POST' && path === '/images/delete') {
+        await server.images.deleteImages(body().refs);
+        return json({});
+    }
+    return json({ error: 'no route' }, 404);
+};
+
+let server: MemoryBackend;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+    server = createMemoryBackend();
+    fetchMock = vi.fn(fakeServer(server));
+    vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('createRestBackend', () => {
+    it('pages through rows that share a timestamp without skipping or repeating any', async () => {
+        const ids = Array.from({ length: SYNC_PAGE_SIZE + 20 }, (_, i) => `bill-${String(i).padStart(4, '0')}`);
+        ids.forEach(id => server.simulateRemoteUpsert(bill(id, 5000)));
+        server.simulateRemoteUpsert(bill('older', 1000));
+
+        const rows = await createRestBackend(BASE_URL, 'secret').fetchChanges(1000);
+
+        expect(rows.map(r => r.id)).toEqual(ids);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(String(fetchMock.mock.calls[1][0])).toContain(`since=5000&after=${ids[SYNC_PAGE_SIZE - 1]}`);
+    });
+
+    it('sends the key and reads back what it wrote', async () => {
+        const rest = createRestBackend(BASE_URL, 'secret');
+        const row: RemoteRow = { id: 'bill-1', data: bill('bill-1', 2000), updated_at: 2000 };
+
+        await rest.upsert([row]);
+
+        expect(fetchMock.mock.calls[0][1].headers).toMatchObject({ Authorization: 'Bearer secret' });
+        expect(await rest.fetchRows(['bill-1', 'missing'])).toEqual([row]);
+
+        await rest.delete(['bill-1']);
+        expect(server.rows.size).toBe(0);
+    });
+
+    it('stores and fetches images, and resolves null for missing ones', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const rest = createRestBackend(BASE_URL, 'secret');
+
+        await rest.images.putImage('img-1', 'thumb', new Blob(['jpeg'], { type: 'image/jpeg' }));
+
+        expect(server.blobs.has('img-1/thumb')).toBe(true);
+        expect(await rest.images.getImage('img-1', 'thumb')).not.toBeNull();
+        expect(await rest.images.getImage('img-1', 'full')).toBeNull();
+        await rest.images.deleteImages(['img-1']);
+        expect(server.blobs.size).toBe(0);
+    });
+
+    it('tells rejected writes apart from server and auth errors', async () => {
+        const rest = createRestBackend(BASE_URL, 'secret');
+        server.rejectedIds.add('bad');
+
+        await expect(rest.upsert([{ id: 'bad', data: {}, updated_at: 1 }])).rejects.toBeInstanceOf(SyncRejectedError);
+
+        fetchMock.mockResolvedValueOnce(json({ error: 'down' }, 503));
+        await expect(rest.upsert([])).rejects.not.toBeInstanceOf(SyncRejectedError);
+
+        fetchMock.mockResolvedValueOnce(json({ error: 'bad key' }, 401));
+        await expect(rest.upsert([])).rejects.not.toBeInstanceOf(SyncRejectedError);
+    });
+});
+
+describe('sync over REST', () => {
+    afterEach(async () => {
+        disconnectSyncBackend();
+        await clearAllBills();
+        localStorage.clear();
+    });
+
+    it('pulls remote bills and pushes local ones', async () => {
+        const now = Date.now();
+        server.simulateRemoteUpsert(bill('remote-1', now - 1000, { customerName: 'New Balaji Traders' }));
+        await saveBillToStorage(bill('local-1', now));
+        attachSyncBackend(createRestBackend(BASE_URL, 'secret'));
+
+        const synced = await fullSync();
+
+        expect(synced.map(b => b.id).sort()).toEqual(['local-1', 'remote-1']);
+        await vi.waitFor(() => expect(server.rows.has('local-1')).toBe(true));
+    });
+});
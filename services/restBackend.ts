@@ -0,0 +1,98 @@
+import { SyncBackend, RemoteRow, RemoteChange, SyncRejectedError, isRejectedStatus, SYNC_PAGE_SIZE } from './syncBackend';
+
+// Plain JSON-over-HTTP backend for a self-hosted server. Expected routes, relative to `baseUrl`:
+//   GET  /bills?since=<ms>&limit=<n>[&after=<id>] -> RemoteRow[] ordered by updated_at, then id, ascending.
+//        Without `after`: rows with updated_at > since. With it: rows after (since, after) in that order,
+//        i.e. updated_at > since, or updated_at = since and id > after. Used to page by the last row seen.
+//   POST /bills/fetch      body: { ids }        -> RemoteRow[] for those ids that exist
+//   POST /bills            body: RemoteRow[]    -> upsert by id
+//   POST /bills/delete     body: { ids }        -> hard delete
+//   GET  /bills/events?key=<key>                -> Server-Sent Events, each `data` a RemoteChange
+//   PUT  /images/<ref>/<full|thumb>  body: image -> store image
+//   GET  /images/<ref>/<full|thumb>             -> image bytes, 404 if missing
+//   POST /images/delete    body: { refs }       -> remove both variants
+// The key is sent as a Bearer token (EventSource can't set headers, hence the query param).
+
+export const createRestBackend = (baseUrl: string, key: string): SyncBackend => {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    const request = async (path: string, init?: RequestInit, contentType = 'application/json') => {
+        const res = await fetch(`${root}${path}`, {
+            ...init,
+            headers: {
+                'Content-Type': contentType,
+                ...(key ? { Authorization: `Bearer ${key}` } : {}),
+            },
+        });
+        if (!res.ok) {
+            const message = `Sync server ${res.status}: ${await res.text()}`;
+            throw isRejectedStatus(res.status) ? new SyncRejectedError(message) : new Error(message);
+        }
+        return res;
+    };
+
+    return {
+        fetchChanges: async (since) => {
+            const rows: RemoteRow[] = [];
+            // Page by the last row seen rather than an offset, so rows written mid-pull can't shift the pages
+            let query = `since=${since}`;
+            for (;;) {
+                const res = await request(`/bills?${query}&limit=${SYNC_PAGE_SIZE}`);
+                const page: RemoteRow[] = await res.json();
+                rows.push(...page);
+                if (page.length < SYNC_PAGE_SIZE) break;
+                const last = page[page.length - 1];
+                query = `since=${last.updated_at}&after=${encodeURIComponent(last.id)}`;
+            }
+            return rows;
+        },
+
+        fetchRows: async (ids) => {
+            if (ids.length === 0) return [];
+            const res = await request('/bills/fetch', { method: 'POST', body: JSON.stringify({ ids }) });
+            return res.json();
+        },
+
+        upsert: async (rows) => {
+            await request('/bills', { method: 'POST', body: JSON.stringify(rows) });
+        },
+
+        delete: async (ids) => {
+            if (ids.length === 0) return;
+            await request('/bills/delete', { method: 'POST', body: JSON.stringify({ ids }) });
+        },
+
+        subscribe: (onChange) => {
+            const source = new EventSource(`${root}/bills/events?key=${encodeURIComponent(key)}`);
+            source.onmessage = (event) => {
+                try {
+                    onChange(JSON.parse(event.data) as RemoteChange);
+                } catch (e) {
+                    console.error("Bad sync event", e);
+                }
+            };
+            return () => source.close();
+        },
+
+        images: {
+            putImage: async (ref, variant, blob) => {
+                await request(`/images/${encodeURIComponent(ref)}/${variant}`, { method: 'PUT', body: blob }, blob.type || 'image/jpeg');
+            },
+
+            getImage: async (ref, variant) => {
+                try {
+                    const res = await request(`/images/${encodeURIComponent(ref)}/${variant}`);
+                    return await res.blob();
+                } catch (e) {
+                    console.error("Image download failed", e);
+                    return null;
+                }
+            },
+
+            deleteImages: async (refs) => {
+                if (refs.length === 0) return;
+                await request('/images/delete', { method: 'POST', body: JSON.stringify({ refs }) });
+            },
+        },
+    };
+};
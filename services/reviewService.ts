@@ -0,0 +1,68 @@
+import { BillData, ExtractedField, ExtractionReview } from '../types';
+import { ExtractedBill } from './aiProvider';
+import { getActor } from './sessionService';
+
+// Below this the extractor is guessing often enough that a person should look
+export const LOW_CONFIDENCE = 0.7;
+
+export const EXTRACTED_FIELD_LABELS: Record<ExtractedField, string> = {
+    customerName: 'Customer',
+    address: 'Address',
+    invoiceNo: 'Invoice No',
+    billDate: 'Bill Date',
+    lineItems: 'Items',
+};
+
+const isBlank = (bill: BillData, field: ExtractedField) =>
+    field === 'lineItems' ? bill.lineItems.length === 0 : !String(bill[field] || '').trim();
+
+// Fields still worth a second look: read with low confidence, or left blank by a failed read.
+// Empty once reviewed, and never for bills typed in by hand.
+export const lowConfidenceFields = (bill: BillData): ExtractedField[] => {
+    const extraction = bill.extraction;
+    if (!extraction || extraction.reviewedAt) return [];
+    return (Object.keys(EXTRACTED_FIELD_LABELS) as ExtractedField[]).filter(field => {
+        const confidence = extraction.confidence[field];
+        if (extraction.failed) return field !== 'lineItems' && isBlank(bill, field);
+        return confidence !== undefined && confidence < LOW_CONFIDENCE;
+    });
+};
+
+export const needsReview = (bill: BillData) => lowConfidenceFields(bill).length > 0;
+
+// A person typing into a flagged field vouches for it
+export const confirmField = (bill: BillData, field: ExtractedField): BillData => {
+    if (!bill.extraction || !lowConfidenceFields(bill).includes(field)) return bill;
+    return { ...bill, extraction: { ...bill.extraction, confidence: { ...bill.extraction.confidence, [field]: 1 } } };
+};
+
+export const markReviewed = (bill: BillData, now = Date.now()): BillData =>
+    bill.extraction
+        ? { ...bill, extraction: { ...bill.extraction, reviewedAt: now, reviewedBy: getActor() }, updatedAt: now }
+        : bill;
+
+export const toExtractionReview = (extracted: Partial<Pick<ExtractionReview, 'source' | 'confidence' | 'rawText' | 'failed'>>): ExtractionReview => ({
+    source: extracted.source || 'ai',
+    confidence: extracted.confidence || {},
+    rawText: extracted.rawText || '',
+    ...(extracted.failed ? { failed: true } : {}),
+});
+
+export const isOfflineRead = (bill: BillData) => bill.extraction?.source === 'offline';
+
+const CORE_FIELDS = ['customerName', 'address', 'invoiceNo', 'billDate'] as const;
+
+// Swaps an offline read for the AI's. Fields a person typed or confirmed are kept; so are items already entered.
+export const applyAiRerun = (bill: BillData, extracted: ExtractedBill, now = Date.now()): BillData => {
+    const previous = bill.extraction?.confidence || {};
+    const next: BillData = { ...bill, updatedAt: now };
+    const confidence = { ...extracted.confidence };
+    CORE_FIELDS.forEach(field => {
+        if (previous[field] === 1 || !extracted[field]) confidence[field] = previous[field] ?? 0;
+        else next[field] = extracted[field];
+    });
+    if (bill.lineItems.length === 0 && extracted.items.length > 0) next.lineItems = extracted.items;
+    if (!bill.billTotal && extracted.total) next.billTotal = extracted.total;
+    next.extraction = toExtractionReview({ ...extracted, confidence });
+    return next;
+};
@@ -0,0 +1,98 @@
+import { BillData, PackingStatus } from '../types';
+import { isPacked, lastStatusEvent } from './statusService';
+
+export type RevisionKind = 'original' | 'edited' | 'additional';
+
+export const REVISION_LABELS: Record<RevisionKind, string> = {
+    original: 'Original',
+    edited: 'Edited',
+    additional: 'Additional',
+};
+
+export interface Revision {
+    bill: BillData;
+    kind: RevisionKind;
+}
+
+const SEARCH_LIMIT = 8;
+
+export const revisionKind = (bill: BillData): RevisionKind =>
+    bill.isEditedBill ? 'edited' : bill.isAdditionalBill ? 'additional' : 'original';
+
+// Only edited and additional bills hang off an original
+export const canHaveParent = (bill: BillData) => bill.isEditedBill || bill.isAdditionalBill;
+
+export const parentOf = (bills: BillData[], bill: BillData): BillData | undefined =>
+    bill.parentBillId ? bills.find(b => b.id === bill.parentBillId) : undefined;
+
+export const childrenOf = (bills: BillData[], parent: BillData): BillData[] =>
+    bills.filter(b => b.parentBillId === parent.id).sort((a, b) => a.createdAt - b.createdAt);
+
+// Ids of every bill linked below `bill`, at any depth
+const descendantIds = (bills: BillData[], bill: BillData): Set<string> => {
+    const found = new Set<string>();
+    const queue = [bill.id];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        bills.forEach(b => {
+            if (b.parentBillId === id && !found.has(b.id) && b.id !== bill.id) {
+                found.add(b.id);
+                queue.push(b.id);
+            }
+        });
+    }
+    return found;
+};
+
+// Candidates for the parent picker: invoice number or customer containing the query, newest first.
+// The bill itself and everything linked below it are left out so links can't form a loop.
+export const searchParentCandidates = (bills: BillData[], bill: BillData, query: string): BillData[] => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const descendants = descendantIds(bills, bill);
+    return bills
+        .filter(b => b.id !== bill.id && !descendants.has(b.id))
+        .filter(b => b.invoiceNo.toLowerCase().includes(q) || b.customerName.toLowerCase().includes(q))
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, SEARCH_LIMIT);
+};
+
+// Links to `parent`, filling in customer details the revision doesn't have yet
+export const linkParent = (bill: BillData, parent: BillData, now = Date.now()): BillData => ({
+    ...bill,
+    parentBillId: parent.id,
+    customerName: bill.customerName || parent.customerName,
+    address: bill.address || parent.address,
+    description: bill.description || parent.description,
+    updatedAt: now,
+});
+
+export const unlinkParent = (bill: BillData, now = Date.now()): BillData => {
+    const { parentBillId, ...rest } = bill;
+    return { ...rest, updatedAt: now };
+};
+
+// The original followed by its revisions in the order they were entered
+export const revisionTimeline = (bills: BillData[], parent: BillData): Revision[] =>
+    [parent, ...childrenOf(bills, parent)].map((bill, i) => ({ bill, kind: i === 0 ? 'original' : revisionKind(bill) }));
+
+const packedTime = (bill: BillData) => bill.packedAt ?? lastStatusEvent(bill, PackingStatus.PACKED)?.at;
+
+// Warns when goods were packed against an invoice that an edited revision has since replaced.
+// Repacking the original after the revision was entered clears it.
+export const supersededWarning = (bills: BillData[], bill: BillData): string | null => {
+    if (bill.isEditedBill) {
+        const parent = parentOf(bills, bill);
+        if (parent && isPacked(parent) && !isPacked(bill)) {
+            return `Original ${parent.invoiceNo || 'invoice'} was already packed. Check its boxes against this revision before packing.`;
+        }
+        return null;
+    }
+    if (!isPacked(bill)) return null;
+    const packedAt = packedTime(bill) ?? 0;
+    const edited = childrenOf(bills, bill).filter(c => c.isEditedBill && c.createdAt > packedAt);
+    const latest = edited[edited.length - 1];
+    return latest
+        ? `Packed before edited revision ${latest.invoiceNo || 'without invoice no'} was entered. Repack against the revision.`
+        : null;
+};
@@ -0,0 +1,37 @@
+import jsQR from 'jsqr';
+
+// --- DECODING ---
+
+// Shape Detection API; not in TypeScript's DOM lib yet, so just the parts used here
+interface BarcodeDetector {
+    detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetector;
+
+// Native detector where the browser has one (reads 1D barcodes too); jsQR otherwise
+const nativeDetector = (() => {
+    const Detector = (window as Window & { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector) return null;
+    try {
+        return new Detector({ formats: ['qr_code', 'code_128', 'code_39', 'ean_13'] });
+    } catch {
+        return null;
+    }
+})();
+
+// Reads the first code visible in the canvas, or null
+export const decodeCanvas = async (canvas: HTMLCanvasElement): Promise<string | null> => {
+    if (nativeDetector) {
+        try {
+            const [found] = await nativeDetector.detect(canvas);
+            return found?.rawValue ?? null;
+        } catch {
+            // Fall through to jsQR
+        }
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || canvas.width === 0) return null;
+    const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+};
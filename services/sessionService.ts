@@ -0,0 +1,30 @@
+const SESSION_KEY = 'grace_session';
+const SESSION_USER_KEY = 'grace_session_user';
+const DEVICE_ID_KEY = 'grace_device_id';
+
+export const startSession = (username: string) => {
+    localStorage.setItem(SESSION_KEY, 'loggedin');
+    localStorage.setItem(SESSION_USER_KEY, username);
+};
+
+export const endSession = () => {
+    localStorage.removeItem(SESSION_KEY);
+    localStorage.removeItem(SESSION_USER_KEY);
+};
+
+export const hasSession = () => localStorage.getItem(SESSION_KEY) === 'loggedin';
+
+export const getSessionUser = () => localStorage.getItem(SESSION_USER_KEY) || 'unknown';
+
+// Stable per-browser id so changes can be attributed to a device
+export const getDeviceId = () => {
+    let id = localStorage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+        id = Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+        localStorage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+};
+
+// Who made a change, e.g. "admin@lx3k9a2f"
+export const getActor = () => `${getSessionUser()}@${getDeviceId()}`;
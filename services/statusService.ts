@@ -0,0 +1,72 @@
+import { BillData, PackingStatus, StatusEvent } from '../types';
+import { setBillStatus, stampStatus } from './boxService';
+
+export const STATUS_LABELS: Record<PackingStatus, string> = {
+    [PackingStatus.PENDING]: 'Pending',
+    [PackingStatus.PACKED]: 'Packed',
+    [PackingStatus.READY_FOR_DISPATCH]: 'Ready',
+    [PackingStatus.DISPATCHED]: 'Dispatched',
+    [PackingStatus.DELIVERED]: 'Delivered',
+    [PackingStatus.RETURNED]: 'Returned',
+};
+
+// Packing can be undone until a bill is staged for a van. From there it only moves forward,
+// except that a staged bill can go back to the floor and a returned one can be re-staged or repacked.
+export const STATUS_TRANSITIONS: Record<PackingStatus, PackingStatus[]> = {
+    [PackingStatus.PENDING]: [PackingStatus.PACKED],
+    [PackingStatus.PACKED]: [PackingStatus.PENDING, PackingStatus.READY_FOR_DISPATCH],
+    [PackingStatus.READY_FOR_DISPATCH]: [PackingStatus.PACKED, PackingStatus.DISPATCHED],
+    [PackingStatus.DISPATCHED]: [PackingStatus.DELIVERED, PackingStatus.RETURNED],
+    [PackingStatus.DELIVERED]: [],
+    [PackingStatus.RETURNED]: [PackingStatus.READY_FOR_DISPATCH, PackingStatus.PENDING],
+};
+
+// Stages after packing; only delivery bills go through them
+export const DISPATCH_STATUSES = [
+    PackingStatus.READY_FOR_DISPATCH, PackingStatus.DISPATCHED, PackingStatus.DELIVERED, PackingStatus.RETURNED,
+];
+
+// Bills still needing someone on the floor: not packed yet, waiting for a van, or back from one
+export const BACKLOG_STATUSES = [PackingStatus.PENDING, PackingStatus.READY_FOR_DISPATCH, PackingStatus.RETURNED];
+
+export const isDispatchStatus = (status: PackingStatus) => DISPATCH_STATUSES.includes(status);
+
+// Packed at some point, whatever happened after
+export const isPacked = (bill: BillData) => bill.status !== PackingStatus.PENDING;
+
+export const isShipped = (bill: BillData) =>
+    bill.status === PackingStatus.DISPATCHED || bill.status === PackingStatus.DELIVERED;
+
+export const isBacklog = (bill: BillData) => BACKLOG_STATUSES.includes(bill.status);
+
+export const allowedTransitions = (bill: BillData): PackingStatus[] =>
+    STATUS_TRANSITIONS[bill.status].filter(s => bill.isDelivery || !isDispatchStatus(s));
+
+export const canTransition = (bill: BillData, to: PackingStatus) => allowedTransitions(bill).includes(to);
+
+// Moves a bill to `to`, logging the time and actor. Throws with a user-facing message if the move isn't allowed.
+export const transitionBill = (bill: BillData, to: PackingStatus, now = Date.now()): BillData => {
+    if (bill.status === to) return bill;
+    if (!canTransition(bill, to)) {
+        const reason = isDispatchStatus(to) && !bill.isDelivery ? ' Only delivery bills go out for dispatch.' : '';
+        throw new Error(`Can't move ${bill.customerName || bill.invoiceNo || 'this bill'} from ${STATUS_LABELS[bill.status]} to ${STATUS_LABELS[to]}.${reason}`);
+    }
+    if (to === PackingStatus.PENDING || to === PackingStatus.PACKED) return setBillStatus(bill, to, now);
+    return { ...stampStatus(bill, to, now), updatedAt: now };
+};
+
+// Starts a new bill at `status`, e.g. an imported row that was already dispatched. Anything past
+// Pending was packed first, and each step is logged like a move. Throws with a user-facing message
+// if the bill can't be at `status`.
+export const startAtStatus = (bill: BillData, status: PackingStatus, now = Date.now()): BillData => {
+    if (status === PackingStatus.PENDING) return bill;
+    if (isDispatchStatus(status) && !bill.isDelivery) {
+        throw new Error(`${bill.customerName || bill.invoiceNo || 'This bill'} isn't a delivery bill, so it can't be ${STATUS_LABELS[status]}.`);
+    }
+    const packed = setBillStatus(bill, PackingStatus.PACKED, now);
+    return status === PackingStatus.PACKED ? packed : { ...stampStatus(packed, status, now), updatedAt: now };
+};
+
+// Latest time the bill entered `status`
+export const lastStatusEvent = (bill: BillData, status: PackingStatus): StatusEvent | undefined =>
+    [...(bill.statusHistory || [])].reverse().find(e => e.status === status);
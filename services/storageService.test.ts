@@ -0,0 +1,241 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BillData, PackingStatus } from '../types';
+import { BILLS_STORE, OUTBOX_STORE, idbGetAll, idbWrite } from './db';
+import { MemoryBackend, createMemoryBackend } from './memoryBackend';
+import { OutboxEntry, flushOutbox } from './outboxService';
+import {
+    RealtimeUpdate, attachSyncBackend, clearAllBills, disconnectSyncBackend, fullSync, getStoredBills, getSyncConflicts,
+    resolveSyncConflict, saveBillToStorage, subscribeToRemoteChanges,
+} from './storageService';
+
+const bill = (changes: Partial<BillData> = {}): BillData => ({
+    id: 'bill-1',
+    customerName: 'Sri Lakshmi Stores',
+    address: 'Koramangala',
+    invoiceNo: 'GB-1042',
+    billDate: '2024-06-12',
+    status: PackingStatus.PENDING,
+    isDelivery: false,
+    hasCRN: false,
+    isEditedBill: false,
+    isAdditionalBill: false,
+    lineItems: [],
+    boxes: [],
+    description: '',
+    schemaVersion: 13,
+    entryDate: '2024-06-12',
+    createdAt: 1000,
+    updatedAt: 1000,
+    statusHistory: [],
+    ...changes,
+});
+
+const queued = () => idbGetAll<OutboxEntry>(OUTBOX_STORE);
+
+const storedBill = async (id: string) => (await getStoredBills()).find(b => b.id === id);
+
+// Saves a bill and waits until the outbox has pushed it, so it has a sync base like any synced bill
+const seed = async (remote: MemoryBackend, local: BillData) => {
+    await saveBillToStorage(local);
+    await vi.waitFor(async () => {
+        expect(remote.rows.has(local.id)).toBe(true);
+        expect(await queued()).toEqual([]);
+    });
+};
+
+// Another device's edit of a bill, stamped the way its own save would have
+const remoteEdit = (from: BillData, changes: Partial<BillData>, at: number): BillData => ({
+    ...from,
+    ...changes,
+    updatedAt: at,
+    fieldUpdatedAt: { ...from.fieldUpdatedAt, ...Object.fromEntries(Object.keys(changes).map(k => [k, at])) },
+});
+
+let remote: MemoryBackend;
+
+beforeEach(() => {
+    remote = createMemoryBackend();
+    attachSyncBackend(remote);
+});
+
+afterEach(async () => {
+    disconnectSyncBackend();
+    vi.restoreAllMocks();
+    await clearAllBills();
+    await idbWrite(OUTBOX_STORE, tx => tx.objectStore(OUTBOX_STORE).clear());
+    localStorage.clear();
+});
+
+describe('realtime changes', () => {
+    const listen = () => {
+        const updates: RealtimeUpdate[] = [];
+        const unsubscribe = subscribeToRemoteChanges(update => updates.push(update));
+        return { updates, unsubscribe };
+    };
+
+    it('adds bills created on another device', async () => {
+        const { updates, unsubscribe } = listen();
+
+        remote.simulateRemoteUpsert(bill({ id: 'bill-2', customerName: 'New Balaji Traders' }));
+
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+        expect(updates[0].updated.map(b => b.customerName)).toEqual(['New Balaji Traders']);
+        expect((await storedBill('bill-2'))?.customerName).toBe('New Balaji Traders');
+        unsubscribe();
+    });
+
+    it('merges a remote edit into the local bill', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const { updates, unsubscribe } = listen();
+
+        remote.simulateRemoteUpsert(remoteEdit(synced, { description: 'Hosur Rd' }, synced.updatedAt + 1000));
+
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+        expect(updates[0].updated[0].description).toBe('Hosur Rd');
+        expect((await storedBill(synced.id))?.description).toBe('Hosur Rd');
+        unsubscribe();
+    });
+
+    it('applies a remote delete as a tombstone', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const { updates, unsubscribe } = listen();
+
+        remote.simulateRemoteUpsert({ ...synced, deletedAt: synced.updatedAt + 1000, deletedBy: 'ravi@tablet', updatedAt: synced.updatedAt + 1000 });
+
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+        expect(updates[0]).toEqual({ updated: [], removedIds: [synced.id] });
+        expect(await storedBill(synced.id)).toBeUndefined();
+        unsubscribe();
+    });
+
+    it('drops a tombstone once it is purged remotely', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const { updates, unsubscribe } = listen();
+        remote.simulateRemoteUpsert({ ...synced, deletedAt: synced.updatedAt + 1000, updatedAt: synced.updatedAt + 1000 });
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+
+        remote.simulateRemoteDelete(synced.id);
+
+        await vi.waitFor(() => expect(updates).toHaveLength(2));
+        expect(updates[1].removedIds).toEqual([synced.id]);
+        expect(await idbGetAll<BillData>(BILLS_STORE)).toEqual([]);
+        unsubscribe();
+    });
+
+    it('keeps local edits that have not been pushed yet', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        await saveBillToStorage({ ...synced, address: 'Indiranagar', updatedAt: synced.updatedAt + 500 });
+        const { updates, unsubscribe } = listen();
+
+        remote.simulateRemoteUpsert(remoteEdit(synced, { description: 'Hosur Rd' }, synced.updatedAt + 1000));
+
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+        expect(updates[0].updated[0]).toMatchObject({ address: 'Indiranagar', description: 'Hosur Rd' });
+        expect((await queued()).map(e => e.billId)).toEqual([synced.id]);
+
+        // Back online, the merged bill goes out with both edits
+        onLine.mockReturnValue(true);
+        await flushOutbox();
+        expect(await queued()).toEqual([]);
+        expect(remote.rows.get(synced.id)?.data).toMatchObject({ address: 'Indiranagar', description: 'Hosur Rd' });
+        unsubscribe();
+    });
+
+    it('records a conflict when both sides change the same key field', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        await saveBillToStorage({ ...synced, invoiceNo: 'GB-1043', updatedAt: synced.updatedAt + 500 });
+        const { updates, unsubscribe } = listen();
+
+        remote.simulateRemoteUpsert(remoteEdit(synced, { invoiceNo: 'GB-1044' }, synced.updatedAt + 1000));
+
+        await vi.waitFor(() => expect(updates).toHaveLength(1));
+        const conflicts = await getSyncConflicts();
+        expect(conflicts).toMatchObject([{ billId: synced.id, field: 'invoiceNo', localValue: 'GB-1043', remoteValue: 'GB-1044' }]);
+        unsubscribe();
+    });
+
+    it('stops applying changes once unsubscribed', async () => {
+        const { updates, unsubscribe } = listen();
+        unsubscribe();
+
+        remote.simulateRemoteUpsert(bill({ id: 'bill-2' }));
+
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(updates).toEqual([]);
+        expect(await storedBill('bill-2')).toBeUndefined();
+    });
+});
+
+describe('fullSync', () => {
+    it('pulls remote bills and only asks for newer ones next time', async () => {
+        const now = Date.now();
+        remote.simulateRemoteUpsert(bill({ id: 'bill-1', updatedAt: now - 2000 }));
+        remote.simulateRemoteUpsert(bill({ id: 'bill-2', updatedAt: now - 1000 }));
+
+        const synced = await fullSync();
+
+        expect(synced.map(b => b.id).sort()).toEqual(['bill-1', 'bill-2']);
+        expect(localStorage.getItem('grace_sync_cursor')).toBe(String(now - 1000));
+
+        const fetchChanges = vi.spyOn(remote, 'fetchChanges');
+        await fullSync();
+        // Re-reads a five minute window behind the cursor for devices with skewed clocks
+        expect(fetchChanges).toHaveBeenCalledWith(now - 1000 - 5 * 60 * 1000);
+    });
+
+    it('pushes local bills through the outbox', async () => {
+        disconnectSyncBackend();
+        await saveBillToStorage(bill({ id: 'bill-1', updatedAt: Date.now() }));
+        attachSyncBackend(remote);
+
+        await fullSync();
+
+        expect(remote.rows.get('bill-1')?.data.customerName).toBe('Sri Lakshmi Stores');
+        expect(await queued()).toEqual([]);
+    });
+
+    it('merges edits from both sides', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        await saveBillToStorage({ ...synced, address: 'Indiranagar', updatedAt: synced.updatedAt + 500 });
+        remote.simulateRemoteUpsert(remoteEdit(synced, { description: 'Hosur Rd' }, synced.updatedAt + 1000));
+        onLine.mockReturnValue(true);
+
+        const [merged] = await fullSync();
+
+        expect(merged).toMatchObject({ address: 'Indiranagar', description: 'Hosur Rd' });
+        await vi.waitFor(async () => expect(await queued()).toEqual([]));
+        expect(remote.rows.get(synced.id)?.data).toMatchObject({ address: 'Indiranagar', description: 'Hosur Rd' });
+    });
+
+    it('reports a conflict and pushes the local value when the user keeps it', async () => {
+        const synced = bill({ updatedAt: Date.now() });
+        await seed(remote, synced);
+        const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        await saveBillToStorage({ ...synced, invoiceNo: 'GB-1043', updatedAt: synced.updatedAt + 500 });
+        remote.simulateRemoteUpsert(remoteEdit(synced, { invoiceNo: 'GB-1044' }, synced.updatedAt + 1000));
+        onLine.mockReturnValue(true);
+
+        const [provisional] = await fullSync();
+
+        expect(provisional.invoiceNo).toBe('GB-1044');
+        const [conflict] = await getSyncConflicts();
+        expect(conflict).toMatchObject({ billId: synced.id, field: 'invoiceNo', localValue: 'GB-1043', remoteValue: 'GB-1044' });
+
+        const kept = await resolveSyncConflict(conflict.id, 'local');
+
+        expect(kept?.invoiceNo).toBe('GB-1043');
+        expect(await getSyncConflicts()).toEqual([]);
+        await vi.waitFor(() => expect(remote.rows.get(synced.id)?.data.invoiceNo).toBe('GB-1043'));
+    });
+});
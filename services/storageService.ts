@@ -1,8 +1,30 @@
-import { BillData } from '../types';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { BillData, ImageAttachment, PackingStatus, SyncConflict } from '../types';
+import {
+    BILLS_STORE, IMAGES_STORE, SYNC_BASE_STORE, CONFLICTS_STORE, openDb, idbGet, idbGetAll, idbPut, idbDelete, idbWrite, isQuotaError
+} from './db';
+import { migrateBill, getSchemaVersion, stampSchemaVersion } from './migrations';
+import { getActor } from './sessionService';
+import { OutboxEntry, enqueueOutbox, flushOutbox, startOutbox, stopOutbox } from './outboxService';
+import { mergeBills, billsEqual, stampFieldChanges, attachmentsOf, mapAttachments, carryAttachmentRefs } from './mergeService';
+import { setBillStatus, stampStatus } from './boxService';
+import { SyncBackend, SyncConfig, RemoteChange, ImageVariant } from './syncBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createRestBackend } from './restBackend';
+import { createMemoryBackend } from './memoryBackend';
 
-const STORAGE_KEY = 'grace_bills_data';
-const SUPABASE_CONFIG_KEY = 'grace_supabase_config';
+const LEGACY_STORAGE_KEY = 'grace_bills_data';
+const SYNC_CONFIG_KEY = 'grace_sync_config';
+const LEGACY_SUPABASE_CONFIG_KEY = 'grace_supabase_config';
+const LAST_PURGE_KEY = 'grace_last_tombstone_purge';
+const SYNC_CURSOR_KEY = 'grace_sync_cursor'; // Highest remote updated_at merged so far
+const PUSH_CURSOR_KEY = 'grace_sync_push_cursor'; // Local time the last successful sync started
+// updated_at comes from device clocks, so re-read a window behind the cursor to catch slightly skewed writers
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+// Tombstones must outlive the longest time a device may stay offline, or its stale copy comes back
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const THUMBNAIL_WIDTH = 240;
 
 // --- IMAGE UTILS ---
 
@@ -32,176 +54,766 @@ export const compressImage = (base64Str: string, maxWidth = 800, quality = 0.7):
   });
 };
 
-// --- DATA OPERATIONS (LOCAL STORAGE) ---
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/jpeg';
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+const makeThumbnail = async (blob: Blob): Promise<Blob> =>
+    dataUrlToBlob(await compressImage(await blobToDataUrl(blob), THUMBNAIL_WIDTH, 0.6));
+
+// --- DATA OPERATIONS (INDEXEDDB) ---
+
+// Bills are stored without their image; the image lives in IMAGES_STORE under `imageId`.
+// Thumbnails downloaded for bills whose full image isn't local sit next to it under thumbKey().
+// Attachments (proof-of-delivery pictures) are stored the same way under their own id.
+type StoredBill = Omit<BillData, 'imageUrl'>;
+
+const thumbKey = (imageId: string) => `${imageId}:thumb`;
+const imageKeys = (imageId: string) => [imageId, thumbKey(imageId)];
+
+// Object URLs handed out for stored images, keyed by image store key
+const imageUrlCache = new Map<string, string>();
+
+const releaseImageUrl = (key: string) => {
+    const url = imageUrlCache.get(key);
+    if (url) {
+        URL.revokeObjectURL(url);
+        imageUrlCache.delete(key);
+    }
+};
+
+const releaseImage = (imageId: string) => imageKeys(imageId).forEach(releaseImageUrl);
+
+const cachedImageUrl = async (key: string): Promise<string | null> => {
+    let url = imageUrlCache.get(key);
+    if (!url) {
+        const blob = await idbGet<Blob>(IMAGES_STORE, key);
+        if (!blob) return null;
+        url = URL.createObjectURL(blob);
+        imageUrlCache.set(key, url);
+    }
+    return url;
+};
+
+// Ids of every image a record owns
+const imageIdsOf = (record: StoredBill) => [...(record.imageId ? [record.imageId] : []), ...attachmentsOf(record).map(a => a.id)];
+
+// The upload reference belongs to the image, so it survives edits made from copies that predate the upload
+const carryImageRef = (previous: StoredBill | undefined, bill: BillData): BillData => {
+    const next = !bill.imageRef && previous?.imageRef && (!bill.imageId || previous.imageId === bill.imageId)
+        ? { ...bill, imageRef: previous.imageRef }
+        : bill;
+    return carryAttachmentRefs(next, previous);
+};
+
+// Moves an inline base64 image into the image store and strips it from the record
+const persistImage = async (bill: BillData): Promise<StoredBill> => {
+    const { imageUrl, ...record } = bill;
+    if (imageUrl && imageUrl.startsWith('data:')) {
+        const imageId = bill.imageId || bill.id;
+        await idbPut(IMAGES_STORE, dataUrlToBlob(imageUrl), imageId);
+        releaseImageUrl(imageId);
+        return { ...record, imageId };
+    }
+    return record;
+};
+
+const toStoredBill = async (bill: BillData): Promise<StoredBill> => stampSchemaVersion(await persistImage(bill));
+
+// Only full images already on this device are attached; remote-only ones load through getBillImageUrl
+const hydrateImage = async (record: StoredBill): Promise<BillData> => {
+    if (!record.imageId) return record;
+    const url = await cachedImageUrl(record.imageId);
+    return url ? { ...record, imageUrl: url } : record;
+};
+
+const hydrateAll = (records: StoredBill[]) =>
+    Promise.all(records.map(hydrateImage)).then(bills => bills.sort((a, b) => b.createdAt - a.createdAt));
+
+// Upgrades records read from IndexedDB and writes back any that changed version
+const loadRecords = async (raw: StoredBill[]): Promise<BillData[]> => {
+    const records: StoredBill[] = [];
+    const upgraded: StoredBill[] = [];
+    raw.forEach(r => {
+        const migrated = migrateBill(r);
+        if (!migrated) return;
+        records.push(migrated);
+        if (getSchemaVersion(migrated) !== getSchemaVersion(r)) upgraded.push(migrated);
+    });
+    if (upgraded.length > 0) {
+        try {
+            await idbWrite(BILLS_STORE, tx => {
+                const store = tx.objectStore(BILLS_STORE);
+                upgraded.forEach(r => store.put(r));
+            });
+        } catch (e) {
+            // The in-memory copies are still upgraded; the write is retried on next load
+            console.error("Failed to persist migrated bills:", e);
+        }
+    }
+    return hydrateAll(records);
+};
+
+// One-time move of the old localStorage blob into IndexedDB
+const migrateLegacyStorage = async () => {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+    try {
+        const legacyBills = (JSON.parse(stored) as unknown[]).map(migrateBill).filter((b): b is BillData => !!b);
+        const records = await Promise.all(legacyBills.map(toStoredBill));
+        await idbWrite(BILLS_STORE, tx => {
+            const store = tx.objectStore(BILLS_STORE);
+            records.forEach(r => store.put(r));
+        });
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (e) {
+        // Leave the legacy key in place so the migration is retried next launch
+        console.error("Legacy storage migration failed:", e);
+    }
+};
+
+let readyPromise: Promise<void> | null = null;
+const ensureReady = () => {
+    if (!readyPromise) readyPromise = openDb().then(migrateLegacyStorage);
+    return readyPromise;
+};
+
+const isLive = (bill: BillData) => !bill.deletedAt;
+
+// Whole-record last write wins; a tombstone beats a live copy with the same timestamp
+const supersedes = (incoming: StoredBill, current: StoredBill) =>
+    incoming.updatedAt > current.updatedAt
+    || (!!incoming.deletedAt && !current.deletedAt && incoming.updatedAt === current.updatedAt);
+
+const handleWriteError = (e: unknown) => {
+    console.error("Failed to save bills:", e);
+    if (isQuotaError(e)) {
+        alert("Storage full! Please delete some old bills or images.");
+    }
+};
 
-export const getStoredBills = (): BillData[] => {
+export const getStoredBills = async (): Promise<BillData[]> => {
     try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        return stored ? JSON.parse(stored) : [];
+        await ensureReady();
+        return (await loadRecords(await idbGetAll<StoredBill>(BILLS_STORE))).filter(isLive);
     } catch (e) { 
         console.error("Failed to load bills:", e);
         return []; 
     }
 };
 
-export const saveBillsToStorage = (bills: BillData[]) => {
+// Live bills plus tombstones, for sync
+const getAllRecords = async (): Promise<BillData[]> => {
+    await ensureReady();
+    return loadRecords(await idbGetAll<StoredBill>(BILLS_STORE));
+};
+
+// Writes (or overwrites) individual bills in one transaction, dropping images they no longer reference
+const putBills = async (bills: BillData[]) => {
+    if (bills.length === 0) return;
+    const previous = await Promise.all(bills.map(b => idbGet<StoredBill>(BILLS_STORE, b.id)));
+    const records = await Promise.all(bills.map(toStoredBill));
+    const dropped = previous.flatMap((p, i) => p ? imageIdsOf(p).filter(id => !imageIdsOf(records[i]).includes(id)) : []);
+
+    await idbWrite([BILLS_STORE, IMAGES_STORE], tx => {
+        const store = tx.objectStore(BILLS_STORE);
+        records.forEach(r => store.put(r));
+        dropped.flatMap(imageKeys).forEach(k => tx.objectStore(IMAGES_STORE).delete(k));
+    });
+    dropped.forEach(releaseImage);
+};
+
+// Saves a batch of edited bills. A copy no newer than the stored one is skipped, so a list read
+// before a sync merge landed can't undo it.
+export const saveBillsToStorage = async (bills: BillData[]) => {
+    let changed: BillData[];
     try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(bills));
+        await ensureReady();
+        const previous = await Promise.all(bills.map(b => idbGet<StoredBill>(BILLS_STORE, b.id)));
+        changed = bills
+            .map((b, i) => ({ bill: b, previous: previous[i] }))
+            .filter(({ bill, previous }) => !previous || bill.updatedAt > previous.updatedAt)
+            .map(({ bill, previous }) => stampFieldChanges(previous, carryImageRef(previous, bill)));
+        await putBills(changed);
     } catch (e) {
-        console.error("Failed to save bills (likely quota exceeded):", e);
-        alert("Storage full! Please delete some old bills or images.");
+        handleWriteError(e);
+        return;
+    }
+
+    // Same path as single saves: only bills this batch actually changed are queued
+    if (backend && changed.length > 0) {
+        await enqueueOutbox('upsert', ...changed.map(b => b.id));
+        flushOutbox();
     }
 };
 
 export const saveBillToStorage = async (bill: BillData) => {
-    const bills = getStoredBills();
-    const index = bills.findIndex(b => b.id === bill.id);
-    if (index >= 0) {
-        bills[index] = bill;
-    } else {
-        bills.unshift(bill);
+    try {
+        await ensureReady();
+        const previous = await idbGet<StoredBill>(BILLS_STORE, bill.id);
+        await idbPut(BILLS_STORE, await toStoredBill(stampFieldChanges(previous, carryImageRef(previous, bill))));
+    } catch (e) {
+        handleWriteError(e);
+        return;
     }
-    saveBillsToStorage(bills);
     
-    // Attempt cloud sync
-    if (supabase) {
-        await syncUpItem(bill);
+    // Queue for cloud; replayed with retries if the push fails
+    if (backend) {
+        await enqueueOutbox('upsert', bill.id);
+        flushOutbox();
     }
 };
 
+// Soft delete: the bill becomes a tombstone that syncs like any other edit
 export const deleteBillFromStorage = async (id: string) => {
-    const bills = getStoredBills().filter(b => b.id !== id);
-    saveBillsToStorage(bills);
+    let tombstone: BillData;
+    try {
+        await ensureReady();
+        const record = await idbGet<StoredBill>(BILLS_STORE, id);
+        if (!record || record.deletedAt) return;
+
+        const now = Date.now();
+        const { imageId, ...rest } = record;
+        const dropped = imageIdsOf(record);
+        // Attachment refs stay on the tombstone so the purge can delete the uploads
+        tombstone = stampSchemaVersion({ ...rest, deletedAt: now, deletedBy: getActor(), updatedAt: now });
+        await idbWrite([BILLS_STORE, IMAGES_STORE], tx => {
+            tx.objectStore(BILLS_STORE).put(tombstone);
+            dropped.flatMap(imageKeys).forEach(k => tx.objectStore(IMAGES_STORE).delete(k));
+        });
+        dropped.forEach(releaseImage);
+    } catch (e) {
+        console.error("Failed to delete bill:", e);
+        return;
+    }
     
-    // Attempt cloud sync
-    if (supabase) {
-        await deleteRemoteItem(id);
+    // Queue for cloud; replayed with retries if the push fails
+    if (backend) {
+        await enqueueOutbox('upsert', tombstone.id);
+        flushOutbox();
     }
 };
 
-export const clearAllBills = () => {
+// Hard-deletes tombstones past retention, locally and (when connected) remotely.
+// Runs at most once per PURGE_INTERVAL_MS unless forced.
+export const purgeExpiredTombstones = async (force = false) => {
+    const lastPurge = Number(localStorage.getItem(LAST_PURGE_KEY)) || 0;
+    if (!force && Date.now() - lastPurge < PURGE_INTERVAL_MS) return;
+
     try {
-        localStorage.removeItem(STORAGE_KEY);
-        // We do NOT clear Supabase config here, only data
+        await ensureReady();
+        const cutoff = Date.now() - TOMBSTONE_RETENTION_MS;
+        const expired = (await idbGetAll<StoredBill>(BILLS_STORE)).filter(r => r.deletedAt && r.deletedAt < cutoff);
+        // Remote first: if it fails, the local tombstones stay and the purge is retried
+        if (backend) {
+            const refs = expired.flatMap(r => [r.imageRef, ...attachmentsOf(r).map(a => a.ref)]);
+            await backend.images.deleteImages(refs.filter((ref): ref is string => !!ref));
+            await backend.delete(expired.map(r => r.id));
+        }
+        await idbWrite([BILLS_STORE, SYNC_BASE_STORE], tx => {
+            expired.forEach(r => {
+                tx.objectStore(BILLS_STORE).delete(r.id);
+                tx.objectStore(SYNC_BASE_STORE).delete(r.id);
+            });
+        });
+        localStorage.setItem(LAST_PURGE_KEY, Date.now().toString());
+    } catch (e) {
+        console.error("Tombstone purge failed:", e);
+    }
+};
+
+export const clearAllBills = async () => {
+    try {
+        await ensureReady();
+        await idbWrite([BILLS_STORE, IMAGES_STORE, SYNC_BASE_STORE, CONFLICTS_STORE], tx => {
+            tx.objectStore(BILLS_STORE).clear();
+            tx.objectStore(IMAGES_STORE).clear();
+            tx.objectStore(SYNC_BASE_STORE).clear();
+            tx.objectStore(CONFLICTS_STORE).clear();
+        });
+        Array.from(imageUrlCache.keys()).forEach(releaseImageUrl);
+        // We do NOT clear the sync config here, only data; the next sync pulls everything again
+        resetSyncCursors();
     } catch (e) {
         console.error("Failed to clear bills:", e);
     }
 };
 
-// --- SUPABASE INTEGRATION ---
+// Remote rows only reference the image; the bytes live in the backend's blob storage
+const toRemoteBill = (bill: BillData): BillData => {
+    const { imageUrl, ...row } = bill;
+    return stampSchemaVersion(row);
+};
+
+// Resolves a displayable URL for a stored image. The full image is used when it's on this device;
+// otherwise the requested variant is downloaded from blob storage and cached locally.
+const loadImageUrl = async (id: string, ref: string | undefined, variant: ImageVariant): Promise<string | null> => {
+    try {
+        await ensureReady();
+        const local = await cachedImageUrl(id)
+            ?? (variant === 'thumb' ? await cachedImageUrl(thumbKey(id)) : null);
+        if (local || !backend || !ref) return local;
+
+        const blob = await backend.images.getImage(ref, variant);
+        if (!blob) return null;
+        const key = variant === 'full' ? id : thumbKey(id);
+        await idbPut(IMAGES_STORE, blob, key);
+        return cachedImageUrl(key);
+    } catch (e) {
+        console.error("Failed to load image:", e);
+        return null;
+    }
+};
+
+export const getBillImageUrl = async (bill: BillData, variant: ImageVariant): Promise<string | null> =>
+    bill.imageId ? loadImageUrl(bill.imageId, bill.imageRef, variant) : bill.imageUrl || null;
+
+// The full bill image as a data URL, e.g. to send it to the AI again
+export const getBillImageDataUrl = async (bill: BillData): Promise<string | null> => {
+    const url = await getBillImageUrl(bill, 'full');
+    return url ? blobToDataUrl(await (await fetch(url)).blob()) : null;
+};
+
+export const getAttachmentUrl = (attachment: ImageAttachment, variant: ImageVariant) =>
+    loadImageUrl(attachment.id, attachment.ref, variant);
+
+// Stores a picture taken for a bill and returns the attachment to put on it. Uploads happen on sync.
+export const saveAttachment = async (dataUrl: string): Promise<ImageAttachment> => {
+    await ensureReady();
+    const id = `att_${Date.now().toString(36)}${Math.random().toString(36).substr(2, 6)}`;
+    await idbPut(IMAGES_STORE, dataUrlToBlob(dataUrl), id);
+    return { id };
+};
+
+// Pushes the full image and a thumbnail; the image id doubles as the reference. Null if the image isn't local.
+const uploadImage = async (id: string): Promise<string | null> => {
+    const blob = await idbGet<Blob>(IMAGES_STORE, id);
+    if (!blob || !backend) return null;
+    await backend.images.putImage(id, 'full', blob);
+    await backend.images.putImage(id, 'thumb', await makeThumbnail(blob));
+    return id;
+};
+
+// Uploads bill images and attachments that haven't been pushed yet, and records their references
+// locally so they aren't uploaded again. Returns the bills with the references set.
+const uploadImages = async (bills: BillData[]): Promise<BillData[]> => {
+    return Promise.all(bills.map(async bill => {
+        if (!backend || bill.deletedAt) return bill;
+        let next = bill;
+
+        if (bill.imageId && !bill.imageRef) {
+            const ref = await uploadImage(bill.imageId);
+            if (ref) next = { ...next, imageRef: ref };
+        }
+        for (const attachment of attachmentsOf(bill)) {
+            const ref = !attachment.ref && await uploadImage(attachment.id);
+            if (ref) next = mapAttachments(next, a => a.id === attachment.id ? { ...a, ref } : a);
+        }
+        if (next === bill) return bill;
+
+        // Not an edit: updatedAt and field stamps stay as they are
+        const record = await idbGet<StoredBill>(BILLS_STORE, bill.id);
+        if (record) await idbPut(BILLS_STORE, carryImageRef(next, record));
+        return next;
+    }));
+};
+
+// --- BACKUP & RESTORE ---
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BillSnapshot {
+    records: StoredBill[]; // Every record, tombstones included
+    images: Record<string, Blob>; // Full images and attachments on this device, keyed by id
+}
+
+export const exportBillSnapshot = async (): Promise<BillSnapshot> => {
+    await ensureReady();
+    const records = await idbGetAll<StoredBill>(BILLS_STORE);
+    const images: Record<string, Blob> = {};
+    await Promise.all(records.flatMap(imageIdsOf).map(async id => {
+        const blob = await idbGet<Blob>(IMAGES_STORE, id);
+        if (blob) images[id] = blob;
+    }));
+    return { records, images };
+};
+
+// Writes bills from a backup. `replace` wipes local bills first; `merge` keeps whichever copy of
+// each bill is newer. Nothing is pushed directly: the next full sync merges restored bills against
+// the server without a common ancestor, so newer edits there win. Returns how many bills were written.
+export const restoreBillSnapshot = async (snapshot: BillSnapshot, mode: RestoreMode): Promise<number> => {
+    await ensureReady();
+    const incoming = snapshot.records.map(migrateBill).filter((b): b is BillData => !!b);
+
+    let restored: BillData[];
+    if (mode === 'replace') {
+        await idbWrite([BILLS_STORE, IMAGES_STORE, SYNC_BASE_STORE, CONFLICTS_STORE], tx => {
+            tx.objectStore(BILLS_STORE).clear();
+            tx.objectStore(IMAGES_STORE).clear();
+            tx.objectStore(SYNC_BASE_STORE).clear();
+            tx.objectStore(CONFLICTS_STORE).clear();
+        });
+        Array.from(imageUrlCache.keys()).forEach(releaseImageUrl);
+        resetSyncCursors();
+        restored = incoming;
+    } else {
+        const existing = new Map<string, StoredBill>((await idbGetAll<StoredBill>(BILLS_STORE)).map(r => [r.id, r]));
+        restored = incoming.filter(b => !existing.has(b.id) || supersedes(b, existing.get(b.id)!));
+        // Against the old base a restored value would look like a local edit and overwrite the server
+        await idbWrite(SYNC_BASE_STORE, tx => {
+            restored.forEach(b => tx.objectStore(SYNC_BASE_STORE).delete(b.id));
+        });
+        if (restored.length > 0) resetSyncCursors();
+    }
+
+    await idbWrite(IMAGES_STORE, tx => {
+        restored.flatMap(imageIdsOf).forEach(id => {
+            const blob = snapshot.images[id];
+            if (blob) tx.objectStore(IMAGES_STORE).put(blob, id);
+        });
+    });
+    await putBills(restored);
+    return restored.length;
+};
+
+// --- CLOUD SYNC BACKEND ---
+
+let backend: SyncBackend | null = null;
+
+export const createSyncBackend = (config: SyncConfig): SyncBackend => {
+    switch (config.type) {
+        case 'rest': return createRestBackend(config.url, config.key);
+        case 'memory': return createMemoryBackend();
+        default: return createSupabaseBackend(config.url, config.key);
+    }
+};
 
-let supabase: SupabaseClient | null = null;
+export const getSyncConfig = (): SyncConfig | null => {
+    const stored = localStorage.getItem(SYNC_CONFIG_KEY);
+    if (stored) return JSON.parse(stored);
+    // Configs saved before backends were pluggable are always Supabase
+    const legacy = localStorage.getItem(LEGACY_SUPABASE_CONFIG_KEY);
+    return legacy ? { type: 'supabase', ...JSON.parse(legacy) } : null;
+};
 
-export const getSupabaseConfig = () => {
-    const stored = localStorage.getItem(SUPABASE_CONFIG_KEY);
-    return stored ? JSON.parse(stored) : null;
+// Starts syncing against an already-built backend (used directly with the in-memory fake)
+export const attachSyncBackend = (instance: SyncBackend) => {
+    backend = instance;
+    startOutbox(processOutboxBatch);
 };
 
-export const initSupabase = (url: string, key: string) => {
+export const connectSyncBackend = (config: SyncConfig) => {
     try {
-        supabase = createClient(url, key);
-        localStorage.setItem(SUPABASE_CONFIG_KEY, JSON.stringify({ url, key }));
+        attachSyncBackend(createSyncBackend(config));
+        localStorage.setItem(SYNC_CONFIG_KEY, JSON.stringify(config));
+        localStorage.removeItem(LEGACY_SUPABASE_CONFIG_KEY);
         return true;
     } catch (e) {
-        console.error("Supabase Init Error", e);
+        console.error("Sync Backend Init Error", e);
         return false;
     }
 };
 
-export const disconnectSupabase = () => {
-    supabase = null;
-    localStorage.removeItem(SUPABASE_CONFIG_KEY);
+export const disconnectSyncBackend = () => {
+    stopOutbox();
+    resetSyncCursors();
+    backend = null;
+    localStorage.removeItem(SYNC_CONFIG_KEY);
+    localStorage.removeItem(LEGACY_SUPABASE_CONFIG_KEY);
 };
 
-export const isSupabaseConnected = () => !!supabase;
+export const isCloudConnected = () => !!backend;
+
+interface RemoteMergeResult {
+    incoming: BillData[]; // Versions written locally
+    pulled: Set<string>; // Local copy now matches the server; don't echo it back
+    needsPush: Set<string>; // Merge kept local edits the server doesn't have
+}
+
+// Merges remote bills into the local store and records the new server bases and any conflicts
+const mergeRemoteBills = async (remoteBills: BillData[], localById: Map<string, BillData>, now: number): Promise<RemoteMergeResult> => {
+    const bases = new Map<string, BillData>();
+    await Promise.all(remoteBills.map(async r => {
+        const base = await idbGet<BillData>(SYNC_BASE_STORE, r.id);
+        if (base) bases.set(r.id, base);
+    }));
+
+    const incoming: BillData[] = [];
+    const pulled = new Set<string>();
+    const needsPush = new Set<string>();
+    const conflicts: SyncConflict[] = [];
 
-// Sync logic: Fetch all from remote, merge with local (Last Write Wins), Update both.
+    remoteBills.forEach(r => {
+        const local = localById.get(r.id);
+        if (!local) {
+            incoming.push(r);
+            pulled.add(r.id);
+            return;
+        }
+
+        // Deletes are whole-record: last write wins, and tombstones carry the delete time as
+        // updatedAt so they beat older edits and win ties.
+        if (r.deletedAt || local.deletedAt) {
+            if (supersedes(r, local)) {
+                incoming.push(r);
+                pulled.add(r.id);
+            }
+            return;
+        }
+
+        // Live on both sides: three-way merge field by field
+        const { merged, conflicts: found } = mergeBills(bases.get(r.id), local, r);
+        found.forEach(c => conflicts.push({
+            id: `${r.id}:${c.field}`, billId: r.id, field: c.field,
+            baseValue: c.baseValue, localValue: c.localValue, remoteValue: c.remoteValue,
+            detectedAt: now,
+        }));
+        if (billsEqual(merged, r)) {
+            if (!billsEqual(local, r) || local.updatedAt !== r.updatedAt) incoming.push(r);
+            pulled.add(r.id);
+        } else {
+            if (!billsEqual(merged, local)) incoming.push({ ...merged, updatedAt: now });
+            needsPush.add(r.id);
+        }
+    });
+
+    await putBills(incoming);
+    await idbWrite([SYNC_BASE_STORE, CONFLICTS_STORE], tx => {
+        remoteBills.forEach(r => tx.objectStore(SYNC_BASE_STORE).put(toBase(r)));
+        conflicts.forEach(c => tx.objectStore(CONFLICTS_STORE).put(c));
+    });
+    return { incoming, pulled, needsPush };
+};
+
+// Delta sync: pull rows changed since the cursor, merge field by field, push local changes since the last sync.
 export const fullSync = async (): Promise<BillData[]> => {
-    if (!supabase) return getStoredBills();
+    if (!backend) return getStoredBills();
 
+    const syncStartedAt = Date.now();
     try {
-        // 1. Fetch Remote
-        const { data: remoteRows, error } = await supabase.from('bills').select('*');
-        if (error) throw error;
-
-        const remoteBills: BillData[] = remoteRows.map((r: any) => r.data);
-        const localBills = getStoredBills();
-
-        // 2. Merge
-        const mergedMap = new Map<string, BillData>();
-        
-        // Add all local
-        localBills.forEach(b => mergedMap.set(b.id, b));
-
-        // Merge remote (Overwriting if remote.updatedAt > local.updatedAt)
-        remoteBills.forEach(r => {
-            const local = mergedMap.get(r.id);
-            if (!local || r.updatedAt > local.updatedAt) {
-                mergedMap.set(r.id, r);
-            }
-        });
+        const cursor = Number(localStorage.getItem(SYNC_CURSOR_KEY)) || 0;
+        const pushCursor = Number(localStorage.getItem(PUSH_CURSOR_KEY)) || 0;
 
-        const mergedBills = Array.from(mergedMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+        // 1. Fetch remote changes
+        const remoteRows = await backend.fetchChanges(Math.max(0, cursor - CURSOR_OVERLAP_MS));
 
-        // 3. Save to Local
-        saveBillsToStorage(mergedBills);
+        // Rows written by older devices are upgraded before they take part in the merge
+        const remoteBills = remoteRows.map(r => migrateBill(r.data)).filter((b): b is BillData => !!b);
+        const localById = new Map((await getAllRecords()).map(b => [b.id, b]));
 
-        // 4. Push updates to Remote (Optimistic: just upsert everything that changed locally or is missing remotely)
-        // For simplicity in this demo, we upsert items that were newer locally or missing remotely
-        // To be 100% robust we'd diff, but looping upserts is acceptable for small datasets
-        for (const bill of mergedBills) {
-             const remote = remoteBills.find(r => r.id === bill.id);
-             if (!remote || bill.updatedAt > remote.updatedAt) {
-                 await syncUpItem(bill);
-             }
-        }
+        // 2. Merge and save locally
+        const { pulled, needsPush } = await mergeRemoteBills(remoteBills, localById, syncStartedAt);
+
+        // 3. Push local changes made since the last sync (not the ones we just pulled) through the outbox
+        const changed = Array.from(localById.values())
+            .filter(b => (b.updatedAt >= pushCursor && !pulled.has(b.id)) || needsPush.has(b.id))
+            .map(b => b.id);
+        await enqueueOutbox('upsert', ...changed);
+        await flushOutbox();
 
-        return mergedBills;
+        // Queued pushes are persisted, so both cursors can advance even if the flush is still retrying
+        const newCursor = remoteRows.reduce((max, r) => Math.max(max, Number(r.updated_at) || 0), cursor);
+        localStorage.setItem(SYNC_CURSOR_KEY, newCursor.toString());
+        localStorage.setItem(PUSH_CURSOR_KEY, syncStartedAt.toString());
+
+        await purgeExpiredTombstones();
+
+        // Reload so images come back as object URLs rather than inline base64
+        return getStoredBills();
     } catch (e) {
         console.error("Sync Error", e);
         return getStoredBills();
     }
 };
 
-export const syncUpItem = async (bill: BillData) => {
-    if (!supabase) return;
-    try {
-        // We use a simple table structure: id (text, pk), data (jsonb), updated_at (bigint)
-        const payload = {
-            id: bill.id,
-            data: bill,
-            updated_at: bill.updatedAt
-        };
-        const { error } = await supabase.from('bills').upsert(payload);
-        if (error) console.error("Upload Error", error);
-    } catch (e) {
-        console.error("Upload Exception", e);
+// --- REALTIME ---
+
+export interface RealtimeUpdate {
+    updated: BillData[]; // Live bills whose local copy changed
+    removedIds: string[]; // Bills deleted (or purged) remotely
+}
+
+const applyRemoteChange = async (change: RemoteChange): Promise<RealtimeUpdate> => {
+    await ensureReady();
+    if (change.type === 'delete') {
+        // Rows are only hard-deleted remotely when expired tombstones are purged
+        const record = await idbGet<StoredBill>(BILLS_STORE, change.id);
+        if (record?.deletedAt) await idbDelete(BILLS_STORE, change.id);
+        return { updated: [], removedIds: [change.id] };
     }
+
+    const remote = migrateBill(change.row.data);
+    if (!remote) return { updated: [], removedIds: [] };
+    const record = await idbGet<StoredBill>(BILLS_STORE, remote.id);
+    const local = record && migrateBill(record);
+    const localById = new Map<string, BillData>(local ? [[local.id, local]] : []);
+
+    const { incoming, needsPush } = await mergeRemoteBills([remote], localById, Date.now());
+    if (needsPush.size > 0) {
+        await enqueueOutbox('upsert', ...needsPush);
+        flushOutbox();
+    }
+    return toRealtimeUpdate(incoming);
+};
+
+// Reads back what a merge wrote so listeners get hydrated bills
+const toRealtimeUpdate = async (incoming: BillData[]): Promise<RealtimeUpdate> => {
+    const changed = await Promise.all(incoming.map(b => idbGet<StoredBill>(BILLS_STORE, b.id)));
+    const live = changed.filter((r): r is StoredBill => !!r && !r.deletedAt);
+    return {
+        updated: await Promise.all(live.map(hydrateImage)),
+        removedIds: changed.filter(r => r?.deletedAt).map(r => r!.id),
+    };
 };
 
-export const deleteRemoteItem = async (id: string) => {
-    if (!supabase) return;
+// Also told about remote edits merged in while the outbox pushes
+const remoteListeners = new Set<(update: RealtimeUpdate) => void>();
+
+const notifyRemoteListeners = (update: RealtimeUpdate) => {
+    if (update.updated.length > 0 || update.removedIds.length > 0) remoteListeners.forEach(l => l(update));
+};
+
+// Applies remote inserts/updates/deletes as they happen. Changes are processed one at a time.
+export const subscribeToRemoteChanges = (listener: (update: RealtimeUpdate) => void) => {
+    if (!backend) return () => {};
+
+    remoteListeners.add(listener);
+    let queue = Promise.resolve();
+    const unsubscribe = backend.subscribe(change => {
+        queue = queue
+            .then(() => applyRemoteChange(change))
+            .then(update => {
+                if (update.updated.length > 0 || update.removedIds.length > 0) listener(update);
+            })
+            .catch(e => console.error("Realtime change failed", e));
+    });
+    return () => {
+        remoteListeners.delete(listener);
+        unsubscribe();
+    };
+};
+
+// Forget sync progress so the next sync pulls and pushes everything again
+const resetSyncCursors = () => {
+    localStorage.removeItem(SYNC_CURSOR_KEY);
+    localStorage.removeItem(PUSH_CURSOR_KEY);
+};
+
+// Throws on failure so the outbox can retry. Returns the bills as pushed.
+export const syncUpItems = async (bills: BillData[]): Promise<BillData[]> => {
+    if (!backend) throw new Error("Cloud not connected");
+    const pushed = await uploadImages(bills);
+    const rows = pushed.map(bill => ({
+        id: bill.id,
+        data: toRemoteBill(bill),
+        updated_at: bill.updatedAt
+    }));
+    await backend.upsert(rows);
+    return pushed;
+};
+
+const readLocalBills = async (ids: string[]) => {
+    const records = await Promise.all(ids.map(id => idbGet<StoredBill>(BILLS_STORE, id)));
+    // Bills purged or unreadable since they were queued are dropped
+    return records.map(r => r && migrateBill(r)).filter((b): b is BillData => !!b);
+};
+
+// Pushes the current local state (live or tombstone) of each queued bill in one upsert.
+// The server copies are merged in first, so edits other devices made meanwhile aren't overwritten.
+const processOutboxBatch = async (entries: OutboxEntry[]) => {
+    if (!backend) throw new Error("Cloud not connected");
+    await ensureReady();
+    const ids = Array.from(new Set(entries.map(e => e.billId)));
+    const local = await readLocalBills(ids);
+    if (local.length === 0) return;
+
+    const remoteRows = await backend.fetchRows(local.map(b => b.id));
+    const remoteBills = remoteRows.map(r => migrateBill(r.data)).filter((b): b is BillData => !!b);
+    const { incoming, pulled } = await mergeRemoteBills(remoteBills, new Map(local.map(b => [b.id, b])), Date.now());
+    notifyRemoteListeners(await toRealtimeUpdate(incoming));
+
+    // Bills the server already matches need no push
+    const bills = await readLocalBills(local.map(b => b.id).filter(id => !pulled.has(id)));
+    if (bills.length === 0) return;
+    const pushed = await syncUpItems(bills);
+
+    // What we just pushed is now the common ancestor for future merges
+    await idbWrite(SYNC_BASE_STORE, tx => {
+        const store = tx.objectStore(SYNC_BASE_STORE);
+        pushed.forEach(b => store.put(toBase(b)));
+    });
+};
+
+// --- SYNC CONFLICTS ---
+
+const toBase = (bill: BillData) => {
+    const { imageUrl, ...base } = bill;
+    return base;
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
     try {
-        const { error } = await supabase.from('bills').delete().eq('id', id);
-        if (error) console.error("Delete Error", error);
+        await ensureReady();
+        return (await idbGetAll<SyncConflict>(CONFLICTS_STORE)).sort((a, b) => a.detectedAt - b.detectedAt);
     } catch (e) {
-        console.error("Delete Exception", e);
+        console.error("Failed to load conflicts:", e);
+        return [];
     }
 };
 
+// Keeping the remote value needs no write (the bill already holds it). Keeping the local value
+// re-applies it as a fresh edit so it syncs out. Returns the updated bill, if any.
+export const resolveSyncConflict = async (conflictId: string, keep: 'local' | 'remote'): Promise<BillData | null> => {
+    await ensureReady();
+    const conflict = await idbGet<SyncConflict>(CONFLICTS_STORE, conflictId);
+    if (!conflict) return null;
+    await idbDelete(CONFLICTS_STORE, conflictId);
+    if (keep === 'remote') return null;
+
+    const record = await idbGet<StoredBill>(BILLS_STORE, conflict.billId);
+    const bill = record && migrateBill(record);
+    if (!bill || bill.deletedAt) return null;
+
+    const now = Date.now();
+    const status = conflict.localValue as PackingStatus;
+    // Restoring a status isn't a workflow move, so it skips transition checks
+    const updated: BillData = conflict.field !== 'status'
+        ? { ...bill, [conflict.field]: conflict.localValue, updatedAt: now }
+        : status === PackingStatus.PENDING || status === PackingStatus.PACKED
+            ? setBillStatus(bill, status, now)
+            : { ...stampStatus(bill, status, now), updatedAt: now };
+    await saveBillToStorage(updated);
+    return hydrateImage(updated);
+};
+
 
 // --- COLOR PALETTE (UI Helpers) ---
+// `hex` matches the ring shade, for places Tailwind classes can't reach (PDFs, labels)
 export const COLOR_PALETTE = [
-  { name: 'slate', bg: 'bg-slate-50', border: 'border-slate-200', text: 'text-slate-900', ring: 'ring-slate-500' },
-  { name: 'red', bg: 'bg-red-50', border: 'border-red-200', text: 'text-red-900', ring: 'ring-red-500' },
-  { name: 'orange', bg: 'bg-orange-50', border: 'border-orange-200', text: 'text-orange-900', ring: 'ring-orange-500' },
-  { name: 'amber', bg: 'bg-amber-50', border: 'border-amber-200', text: 'text-amber-900', ring: 'ring-amber-500' },
-  { name: 'green', bg: 'bg-emerald-50', border: 'border-emerald-200', text: 'text-emerald-900', ring: 'ring-emerald-500' },
-  { name: 'teal', bg: 'bg-teal-50', border: 'border-teal-200', text: 'text-teal-900', ring: 'ring-teal-500' },
-  { name: 'blue', bg: 'bg-blue-50', border: 'border-blue-200', text: 'text-blue-900', ring: 'ring-blue-500' },
-  { name: 'indigo', bg: 'bg-indigo-50', border: 'border-indigo-200', text: 'text-indigo-900', ring: 'ring-indigo-500' },
-  { name: 'purple', bg: 'bg-purple-50', border: 'border-purple-200', text: 'text-purple-900', ring: 'ring-purple-500' },
-  { name: 'pink', bg: 'bg-pink-50', border: 'border-pink-200', text: 'text-pink-900', ring: 'ring-pink-500' },
+  { name: 'slate', bg: 'bg-slate-50', border: 'border-slate-200', text: 'text-slate-900', ring: 'ring-slate-500', hex: '#64748b' },
+  { name: 'red', bg: 'bg-red-50', border: 'border-red-200', text: 'text-red-900', ring: 'ring-red-500', hex: '#ef4444' },
+  { name: 'orange', bg: 'bg-orange-50', border: 'border-orange-200', text: 'text-orange-900', ring: 'ring-orange-500', hex: '#f97316' },
+  { name: 'amber', bg: 'bg-amber-50', border: 'border-amber-200', text: 'text-amber-900', ring: 'ring-amber-500', hex: '#f59e0b' },
+  { name: 'green', bg: 'bg-emerald-50', border: 'border-emerald-200', text: 'text-emerald-900', ring: 'ring-emerald-500', hex: '#10b981' },
+  { name: 'teal', bg: 'bg-teal-50', border: 'border-teal-200', text: 'text-teal-900', ring: 'ring-teal-500', hex: '#14b8a6' },
+  { name: 'blue', bg: 'bg-blue-50', border: 'border-blue-200', text: 'text-blue-900', ring: 'ring-blue-500', hex: '#3b82f6' },
+  { name: 'indigo', bg: 'bg-indigo-50', border: 'border-indigo-200', text: 'text-indigo-900', ring: 'ring-indigo-500', hex: '#6366f1' },
+  { name: 'purple', bg: 'bg-purple-50', border: 'border-purple-200', text: 'text-purple-900', ring: 'ring-purple-500', hex: '#a855f7' },
+  { name: 'pink', bg: 'bg-pink-50', border: 'border-pink-200', text: 'text-pink-900', ring: 'ring-pink-500', hex: '#ec4899' },
 ];
 
 export const getThemeStyles = (colorName?: string, description?: string) => {
@@ -0,0 +1,93 @@
+import { createClient } from '@supabase/supabase-js';
+import { SyncBackend, RemoteRow, ImageVariant, SyncRejectedError, isRejectedStatus, SYNC_PAGE_SIZE } from './syncBackend';
+
+// Table `bills`: id (text, pk), data (jsonb), updated_at (bigint)
+const TABLE = 'bills';
+// Storage bucket `bill-images`: <imageRef>/full.jpg and <imageRef>/thumb.jpg
+const BUCKET = 'bill-images';
+
+const imagePath = (ref: string, variant: ImageVariant) => `${ref}/${variant}.jpg`;
+
+export const createSupabaseBackend = (url: string, key: string): SyncBackend => {
+    const client = createClient(url, key);
+
+    return {
+        fetchChanges: async (since) => {
+            const rows: RemoteRow[] = [];
+            // Page by the last (updated_at, id) seen rather than an offset, so equal timestamps and rows
+            // written mid-pull can't make a page skip or repeat rows
+            let last: RemoteRow | undefined;
+            for (;;) {
+                let query = client.from(TABLE).select('id, data, updated_at');
+                query = last
+                    ? query.or(`updated_at.gt.${last.updated_at},and(updated_at.eq.${last.updated_at},id.gt."${last.id}")`)
+                    : query.gt('updated_at', since);
+                const { data, error } = await query
+                    .order('updated_at', { ascending: true })
+                    .order('id', { ascending: true })
+                    .limit(SYNC_PAGE_SIZE);
+                if (error) throw error;
+                rows.push(...(data as RemoteRow[]));
+                if (data.length < SYNC_PAGE_SIZE) break;
+                last = data[data.length - 1] as RemoteRow;
+            }
+            return rows;
+        },
+
+        fetchRows: async (ids) => {
+            if (ids.length === 0) return [];
+            const { data, error } = await client.from(TABLE).select('id, data, updated_at').in('id', ids);
+            if (error) throw error;
+            return data as RemoteRow[];
+        },
+
+        upsert: async (rows) => {
+            const { error, status } = await client.from(TABLE).upsert(rows);
+            if (error) throw isRejectedStatus(status) ? new SyncRejectedError(error.message) : error;
+        },
+
+        delete: async (ids) => {
+            if (ids.length === 0) return;
+            const { error } = await client.from(TABLE).delete().in('id', ids);
+            if (error) throw error;
+        },
+
+        subscribe: (onChange) => {
+            const channel = client
+                .channel('bills-changes')
+                .on('postgres_changes', { event: '*', schema: 'public', table: TABLE }, (payload: any) => {
+                    if (payload.eventType === 'DELETE') {
+                        if (payload.old?.id) onChange({ type: 'delete', id: payload.old.id });
+                    } else if (payload.new?.id) {
+                        onChange({ type: 'upsert', row: payload.new as RemoteRow });
+                    }
+                })
+                .subscribe();
+            return () => { client.removeChannel(channel); };
+        },
+
+        images: {
+            putImage: async (ref, variant, blob) => {
+                const { error } = await client.storage.from(BUCKET)
+                    .upload(imagePath(ref, variant), blob, { upsert: true, contentType: blob.type || 'image/jpeg' });
+                if (error) throw error;
+            },
+
+            getImage: async (ref, variant) => {
+                const { data, error } = await client.storage.from(BUCKET).download(imagePath(ref, variant));
+                if (error) {
+                    console.error("Image download failed", error);
+                    return null;
+                }
+                return data;
+            },
+
+            deleteImages: async (refs) => {
+                if (refs.length === 0) return;
+                const paths = refs.flatMap(ref => [imagePath(ref, 'full'), imagePath(ref, 'thumb')]);
+                const { error } = await client.storage.from(BUCKET).remove(paths);
+                if (error) throw error;
+            },
+        },
+    };
+};
@@ -0,0 +1,61 @@
+// Contract between the sync engine (storageService) and wherever the shared bill table lives.
+// Rows are opaque to backends: `data` is the bill JSON and `updated_at` its updatedAt.
+// Images never travel in rows; they go to the backend's blob storage under the bill's imageRef.
+
+export interface RemoteRow {
+    id: string;
+    data: any;
+    updated_at: number;
+}
+
+export type RemoteChange =
+    | { type: 'upsert'; row: RemoteRow }
+    | { type: 'delete'; id: string };
+
+// Thrown when the server refused a write because of the data itself (validation, constraint).
+// Retrying the same rows won't help, unlike network or server errors.
+export class SyncRejectedError extends Error {}
+
+// Client errors other than auth and throttling, which affect every write and pass on their own
+export const isRejectedStatus = (status: number) =>
+    status >= 400 && status < 500 && ![401, 403, 408, 425, 429].includes(status);
+
+export type ImageVariant = 'full' | 'thumb';
+
+// Object storage for bill images. Each imageRef has a full-size image and a small thumbnail.
+export interface BlobBackend {
+    putImage: (ref: string, variant: ImageVariant, blob: Blob) => Promise<void>;
+    // Resolves null when the object doesn't exist
+    getImage: (ref: string, variant: ImageVariant) => Promise<Blob | null>;
+    // Removes both variants of each ref
+    deleteImages: (refs: string[]) => Promise<void>;
+}
+
+export interface SyncBackend {
+    // Rows with updated_at > since, oldest first and ties ordered by id
+    fetchChanges: (since: number) => Promise<RemoteRow[]>;
+    // Current rows for the given ids; ids with no row are left out
+    fetchRows: (ids: string[]) => Promise<RemoteRow[]>;
+    upsert: (rows: RemoteRow[]) => Promise<void>;
+    // Hard delete; bills are normally soft-deleted, so this is only used to purge tombstones
+    delete: (ids: string[]) => Promise<void>;
+    // Live change feed; returns an unsubscribe function
+    subscribe: (onChange: (change: RemoteChange) => void) => () => void;
+    images: BlobBackend;
+}
+
+export type SyncBackendType = 'supabase' | 'rest' | 'memory';
+
+export interface SyncConfig {
+    type: SyncBackendType;
+    url: string;
+    key: string;
+}
+
+export const SYNC_BACKEND_LABELS: Record<SyncBackendType, string> = {
+    supabase: 'Supabase',
+    rest: 'Self-hosted (REST)',
+    memory: 'In-memory (testing)',
+};
+
+export const SYNC_PAGE_SIZE = 500;
@@ -1,11 +1,92 @@
+// Lifecycle of a bill. Delivery bills continue past PACKED onto the vans; see services/statusService.ts
 export enum PackingStatus {
   PENDING = 'PENDING',
   PACKED = 'PACKED',
+  READY_FOR_DISPATCH = 'READY_FOR_DISPATCH',
+  DISPATCHED = 'DISPATCHED',
+  DELIVERED = 'DELIVERED',
+  RETURNED = 'RETURNED',
+}
+
+export interface StatusEvent {
+  status: PackingStatus; // Status entered
+  at: number; // Timestamp
+  by: string; // Actor, see sessionService.getActor
+}
+
+export interface BillBox {
+  index: number; // 1-based, matches "Box N of M" on the label
+  status: PackingStatus;
+  weight?: number; // kg
+  note?: string;
+  packedAt?: number; // Timestamp when this box was packed
+}
+
+// A picture other than the bill photo (e.g. proof of delivery), kept in the image store under `id`
+export interface ImageAttachment {
+  id: string;
+  ref?: string; // Key in the sync backend's blob storage, set once uploaded
+}
+
+export interface ProofOfDelivery {
+  receiverName: string;
+  deliveredAt: number; // Timestamp of the handover
+  capturedBy: string; // Actor, see sessionService.getActor
+  photo?: ImageAttachment;
+  signature?: ImageAttachment; // PNG of the receiver's signature
+}
+
+// A product line printed on the bill; `picked` is ticked off by the packer
+export interface LineItem {
+  product: string;
+  quantity: number;
+  unit: string; // e.g. "pcs", "box", "kg"; empty if the bill doesn't say
+  amount: number; // Line total in rupees, 0 if not printed
+  picked?: boolean;
+}
+
+// Fields read from the bill image by the AI
+export type ExtractedField = 'customerName' | 'address' | 'invoiceNo' | 'billDate' | 'lineItems';
+
+// Who read the bill: the configured AI provider, or the on-device OCR fallback
+export type ExtractionSource = 'ai' | 'offline';
+
+export interface ExtractionReview {
+  source: ExtractionSource; // Offline reads can be re-run with the AI once it's reachable
+  confidence: Partial<Record<ExtractedField, number>>; // 0-1 per field, as reported by the extractor
+  rawText: string; // Everything the extractor read off the image
+  failed?: boolean; // Extraction errored or was unavailable, so nothing was filled in
+  reviewedAt?: number; // Set once a person has checked the fields
+  reviewedBy?: string; // Actor, see sessionService.getActor
+}
+
+export enum CrnStatus {
+  PENDING = 'PENDING', // Goods back, credit not yet raised
+  PROCESSED = 'PROCESSED',
+}
+
+export interface ReturnedItem {
+  product: string;
+  quantity: number;
+}
+
+// Credit return note: goods a customer sent back against an earlier invoice
+export interface CreditReturnNote {
+  crnNo: string;
+  originalInvoiceNo: string;
+  originalBillId?: string; // Set when the original invoice is a bill in the app
+  items: ReturnedItem[];
+  status: CrnStatus;
+  processedAt?: number;
+  processedBy?: string; // Actor, see sessionService.getActor
+  document?: ImageAttachment; // Photo of the CRN paper
 }
 
 export interface BillData {
   id: string;
-  imageUrl?: string; // Base64 string of the bill
+  imageUrl?: string; // Displayable image (base64 when fresh, object URL when loaded from the local store)
+  imageId?: string; // Key of the image Blob in the local image store; same on every device
+  imageRef?: string; // Key of the uploaded image in the sync backend's blob storage, set once uploaded
   customerName: string;
   address: string;
   invoiceNo: string;
@@ -17,17 +98,41 @@ export interface BillData {
   hasCRN: boolean;
   isEditedBill: boolean;
   isAdditionalBill: boolean;
+  parentBillId?: string; // Original invoice an edited or additional bill belongs to
   
   // Packing Details
-  boxCount: number;
+  lineItems: LineItem[]; // Read from the bill image; empty for manual entries
+  billTotal?: number; // Grand total printed on the bill
+  boxes: BillBox[]; // One entry per physical box; status is derived from these when there are any
   description: string; // Used for grouping (Shop Name)
   colorTheme?: string; // New: explicitly selected color theme name (e.g. 'blue')
   
   // Metadata
+  schemaVersion: number; // Stored shape version, see services/migrations.ts
   entryDate: string; // YYYY-MM-DD format (The date the user worked on it)
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
+  fieldUpdatedAt?: Record<string, number>; // Per-field edit timestamps, used by the sync merge
   packedAt?: number; // Timestamp when status changed to PACKED
+  statusHistory: StatusEvent[]; // Every status change, oldest first
+  proofOfDelivery?: ProofOfDelivery; // Captured when a delivery bill is handed over
+  crn?: CreditReturnNote; // Return details, recorded once hasCRN is set
+  extraction?: ExtractionReview; // How sure the AI was about what it read; absent for manual entries
+
+  // Soft delete: tombstones are kept (and synced) so other devices learn about the delete
+  deletedAt?: number;
+  deletedBy?: string; // Actor, see sessionService.getActor
+}
+
+// A field both devices changed differently; the bill holds the remote value until resolved
+export interface SyncConflict {
+  id: string; // `${billId}:${field}`
+  billId: string;
+  field: string;
+  baseValue: unknown;
+  localValue: unknown;
+  remoteValue: unknown;
+  detectedAt: number;
 }
 
 export interface DayGroup {